@@ -1,17 +1,50 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import Cropper from 'react-easy-crop';
-import JSZip from 'jszip';
-import { Upload, Download, Settings, Layers, Image as ImageIcon, Loader2, Crop as CropIcon, Check, RefreshCw, Printer, Coffee, Youtube, Github, Flag, Mail, PlayCircle } from 'lucide-react';
-import { quantizeImage, resizeImageToCanvas, drawQuantizedPreview, getCroppedImg, smoothIndices } from './utils/imageHelper';
-import { generate3MF, generateSTLs } from './utils/stlHelper';
-import { BookmarkSettings, ProcessingState, RGB } from './types';
-import { CANVAS_WIDTH, CANVAS_HEIGHT } from './constants';
+import { Upload, Download, Settings, Layers, Image as ImageIcon, Loader2, Crop as CropIcon, Check, RefreshCw, Printer, Coffee, Youtube, Github, Flag, Mail, PlayCircle, Lock, Unlock, X, Dices, Box, AlertTriangle } from 'lucide-react';
+import { loadImagePixels, drawQuantizedPreview, getCroppedImg, getCanvasSize, randomSeed, loadSilhouetteMask, mirrorIndices, drawIssueOverlay, drawReliefPreview } from './utils/imageHelper';
+import { renderTextLayer } from './utils/textHelper';
+import { getBackDepth, getPrintSettings } from './utils/layerHelper';
+import { rgbToHex, hexToRgb } from './utils/colorHelper';
+import { loadFilamentLibrary, saveFilamentLibrary, findNearestFilament, getFilamentLabel } from './utils/filamentLibrary';
+import { ProcessedImage } from './utils/pipeline';
+import { createPipelineRunner, PipelineCancelledError, PipelineRunner } from './utils/pipelineClient';
+import FilamentLibrary from './components/FilamentLibrary';
+import BookmarkViewer from './components/BookmarkViewer';
+import TextLayerEditor from './components/TextLayerEditor';
+import FilamentUsageTable from './components/FilamentUsageTable';
+import BatchPanel from './components/BatchPanel';
+import { BatchItem, runBatch } from './utils/batchHelper';
+import { FilamentUsage } from './utils/usageHelper';
+import { getFilamentSwaps } from './utils/stackHelper';
+import { MeshBuffers } from './utils/meshHelper';
+import { BookmarkSettings, DitherMode, Filament, FramePattern, OutlineShape, ProcessingState, ReliefMode, RGB, TextBlock } from './types';
+import { SIZE_PRESETS, MIN_SIZE_MM, MAX_SIZE_MM, MIN_COLORS, MAX_COLORS, DEFAULT_PALETTE, NOZZLE_OPTIONS, PRINT_PROFILE_PRESETS, DITHER_MODES, OUTLINE_SHAPES, FRAME_PATTERNS, RES_PPM, FILAMENT_MATERIALS, FILAMENT_DIAMETERS, RELIEF_MODES, BED_PRESETS, DEFAULT_SETTINGS } from './constants';
+
+// On-screen preview bounds (CSS px) for the processed canvas
+const PREVIEW_MAX_WIDTH = 360;
+const PREVIEW_MAX_HEIGHT = 576;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+};
 
 export default function App() {
   // State
+  const [sourceImgSrc, setSourceImgSrc] = useState<string | null>(null);
   const [rawImgSrc, setRawImgSrc] = useState<string | null>(null);
   const [imgSrc, setImgSrc] = useState<string | null>(null);
-  const [quantizedData, setQuantizedData] = useState<{ palette: RGB[], indices: Uint8Array, rawIndices: Uint8Array } | null>(null);
+  // Resized crop pixels fed to the worker pipeline
+  const [sourcePixels, setSourcePixels] = useState<{ data: Uint8ClampedArray, width: number, height: number } | null>(null);
+  const [quantizedData, setQuantizedData] = useState<ProcessedImage | null>(null);
+
+  // Double-sided: back artwork, with the same original / pending crop / cropped stages as the front
+  const [backSourceSrc, setBackSourceSrc] = useState<string | null>(null);
+  const [backRawSrc, setBackRawSrc] = useState<string | null>(null);
+  const [backImgSrc, setBackImgSrc] = useState<string | null>(null);
+  const [backPixels, setBackPixels] = useState<{ data: Uint8ClampedArray, width: number, height: number } | null>(null);
 
   // Cropper State
   const [crop, setCrop] = useState({ x: 0, y: 0 });
@@ -21,20 +54,71 @@ export default function App() {
   // Gallery State
   const [randomGalleryImage, setRandomGalleryImage] = useState<string | null>(null);
 
-  const [settings, setSettings] = useState<BookmarkSettings>({
-    baseHeight: 0.8,
-    layerHeights: [0.6, 0.8, 1.0, 1.2],
-    isTactile: false, // Default to Flat
-    widthMm: 50,
-    heightMm: 160,
-    smoothing: 2
-  });
+  const [settings, setSettings] = useState<BookmarkSettings>(DEFAULT_SETTINGS);
+
+  // Die-cut silhouette: the uploaded image and its mask on the processing grid
+  const [silhouetteSrc, setSilhouetteSrc] = useState<string | null>(null);
+  const [silhouetteMask, setSilhouetteMask] = useState<Uint8Array | null>(null);
+
+  // Text blocks and their rasterization on the processing grid
+  const [textBlocks, setTextBlocks] = useState<TextBlock[]>([]);
+  const [textLayer, setTextLayer] = useState<Uint8Array | null>(null);
+
+  // Palette State: a locked slot is pinned to an exact filament color
+  const [lockedColors, setLockedColors] = useState<(RGB | null)[]>(() => new Array(MAX_COLORS).fill(null));
+  const [editingSlot, setEditingSlot] = useState<number | null>(null);
+  const [draftHex, setDraftHex] = useState('#FFFFFF');
+
+  // Filament Library State
+  const [filaments, setFilaments] = useState<Filament[]>(loadFilamentLibrary);
+  const [slotFilamentIds, setSlotFilamentIds] = useState<(string | null)[]>(() => new Array(MAX_COLORS).fill(null));
 
   const [processing, setProcessing] = useState<ProcessingState>({ status: 'idle' });
 
+  // 3D Preview State
+  const [previewMode, setPreviewMode] = useState<'2d' | 'back' | '3d'>('2d');
+  const [previewMeshes, setPreviewMeshes] = useState<MeshBuffers[] | null>(null);
+  const [meshLoading, setMeshLoading] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+
+  // Filament estimate for the exported meshes
+  const [usage, setUsage] = useState<FilamentUsage | null>(null);
+  const [usageLoading, setUsageLoading] = useState(false);
+
+  // Batch mode: its own progress, so the editor stays usable while it runs
+  const [batchState, setBatchState] = useState<ProcessingState>({ status: 'idle' });
+  const [batchSkipped, setBatchSkipped] = useState<string[]>([]);
+  const [batchWarnings, setBatchWarnings] = useState<string[]>([]);
+
   // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const issueCanvasRef = useRef<HTMLCanvasElement>(null);
+  const backCanvasRef = useRef<HTMLCanvasElement>(null);
+  const backInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const silhouetteInputRef = useRef<HTMLInputElement>(null);
+  // Separate workers so a settings change never cancels a running export
+  const processRunnerRef = useRef<PipelineRunner | null>(null);
+  const exportRunnerRef = useRef<PipelineRunner | null>(null);
+  const meshRunnerRef = useRef<PipelineRunner | null>(null);
+  const usageRunnerRef = useRef<PipelineRunner | null>(null);
+  const batchRunnerRef = useRef<PipelineRunner | null>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    processRunnerRef.current = createPipelineRunner();
+    exportRunnerRef.current = createPipelineRunner();
+    meshRunnerRef.current = createPipelineRunner();
+    usageRunnerRef.current = createPipelineRunner();
+    batchRunnerRef.current = createPipelineRunner();
+    return () => {
+      processRunnerRef.current?.dispose();
+      exportRunnerRef.current?.dispose();
+      meshRunnerRef.current?.dispose();
+      usageRunnerRef.current?.dispose();
+      batchRunnerRef.current?.dispose();
+    };
+  }, []);
 
   // Initialize Random Image
   useEffect(() => {
@@ -51,6 +135,7 @@ export default function App() {
       const reader = new FileReader();
       reader.onload = (event) => {
         if (event.target?.result) {
+          setSourceImgSrc(event.target.result as string);
           setRawImgSrc(event.target.result as string);
           setImgSrc(null);
           setQuantizedData(null);
@@ -61,17 +146,48 @@ export default function App() {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleBackUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        if (event.target?.result) {
+          setBackSourceSrc(event.target.result as string);
+          setBackRawSrc(event.target.result as string);
+          setBackImgSrc(null);
+        }
+      };
+      reader.readAsDataURL(file);
+    }
+    if (backInputRef.current) backInputRef.current.value = '';
+  };
+
+  const handleRemoveBack = () => {
+    setBackSourceSrc(null);
+    setBackRawSrc(null);
+    setBackImgSrc(null);
+    if (previewMode === 'back') setPreviewMode('2d');
+  };
+
   const onCropComplete = useCallback((croppedArea: any, croppedAreaPixels: any) => {
     setCroppedAreaPixels(croppedAreaPixels);
   }, []);
 
+  // The cropper serves the front first, then the back if both are pending
+  const cropSrc = rawImgSrc ?? backRawSrc;
+
   const handleCropConfirm = async () => {
-    if (rawImgSrc && croppedAreaPixels) {
+    if (cropSrc && croppedAreaPixels) {
       setProcessing({ status: 'processing', message: 'Cropping...' });
       try {
-        const croppedImage = await getCroppedImg(rawImgSrc, croppedAreaPixels);
-        setImgSrc(croppedImage);
-        setRawImgSrc(null);
+        const croppedImage = await getCroppedImg(cropSrc, croppedAreaPixels, settings.widthMm, settings.heightMm);
+        if (rawImgSrc) {
+            setImgSrc(croppedImage);
+            setRawImgSrc(null);
+        } else {
+            setBackImgSrc(croppedImage);
+            setBackRawSrc(null);
+        }
         setProcessing({ status: 'idle' });
       } catch (e) {
         console.error(e);
@@ -81,92 +197,348 @@ export default function App() {
   };
 
   const handleReset = () => {
+    setSourceImgSrc(null);
     setRawImgSrc(null);
     setImgSrc(null);
     setQuantizedData(null);
+    handleRemoveBack();
+    processRunnerRef.current?.cancel();
     setProcessing({ status: 'idle' });
   };
 
-  // Process image when final source changes
+  // Decode + resize the cropped image once; the worker does the heavy lifting
   useEffect(() => {
-    if (!imgSrc) return;
-    const img = new Image();
-    img.onload = () => {
-        const canvas = resizeImageToCanvas(img);
-        const ctx = canvas.getContext('2d');
-        if(!ctx) return;
-        const result = quantizeImage(ctx, 4);
-        // Store raw indices so we can re-apply smoothing without re-quantizing
-        setQuantizedData({ ...result, rawIndices: result.indices });
-    };
-    img.src = imgSrc;
+    if (!imgSrc) {
+        processRunnerRef.current?.cancel();
+        setSourcePixels(null);
+        return;
+    }
+    loadImagePixels(imgSrc, settings.widthMm, settings.heightMm)
+        .then(setSourcePixels)
+        .catch(e => console.error(e));
   }, [imgSrc]);
 
-  // Apply/Re-apply smoothing when settings or data change
   useEffect(() => {
-    if (quantizedData?.rawIndices) {
-        const smoothed = smoothIndices(quantizedData.rawIndices, CANVAS_WIDTH, CANVAS_HEIGHT, settings.smoothing);
-        setQuantizedData(prev => prev ? ({ ...prev, indices: smoothed }) : null);
+    if (!backImgSrc) {
+        setBackPixels(null);
+        return;
+    }
+    loadImagePixels(backImgSrc, settings.widthMm, settings.heightMm)
+        .then(setBackPixels)
+        .catch(e => console.error(e));
+  }, [backImgSrc]);
+
+  // Resample the silhouette whenever it or the grid changes
+  useEffect(() => {
+    if (!silhouetteSrc || !sourcePixels) {
+        setSilhouetteMask(null);
+        return;
     }
-  }, [settings.smoothing]);
+    let cancelled = false;
+    loadSilhouetteMask(silhouetteSrc, sourcePixels.width, sourcePixels.height)
+        .then(mask => { if (!cancelled) setSilhouetteMask(mask); })
+        .catch(e => console.error(e));
+    return () => { cancelled = true; };
+  }, [silhouetteSrc, sourcePixels?.width, sourcePixels?.height]);
+
+  // Re-rasterize text when the blocks or the grid change
+  useEffect(() => {
+    if (!sourcePixels) {
+        setTextLayer(null);
+        return;
+    }
+    let cancelled = false;
+    renderTextLayer(textBlocks, sourcePixels.width, sourcePixels.height, settings.widthMm)
+        .then(layer => { if (!cancelled) setTextLayer(layer); })
+        .catch(e => console.error(e));
+    return () => { cancelled = true; };
+  }, [textBlocks, sourcePixels?.width, sourcePixels?.height, settings.widthMm]);
+
+  // What a luminance stack depends on beyond the palette; nothing in palette mode
+  const stackKey = settings.stackMode === 'luminance'
+    ? JSON.stringify([settings.baseHeight, settings.transmissionDistances, settings.printProfile.firstLayerHeight, settings.printProfile.layerHeight])
+    : '';
+  // Likewise for the relief, which is built from the image's grayscale
+  const reliefKey = settings.reliefMode !== 'off'
+    ? JSON.stringify([settings.reliefMode, settings.reliefMinThickness, settings.reliefMaxThickness, settings.reliefInvert, settings.reliefGamma, settings.reliefBlur])
+    : '';
+
+  // Run quantization/dithering/smoothing in the worker; a newer run cancels the old one.
+  // The worker caches the quantization, so a smoothing-only change is cheap.
+  useEffect(() => {
+    const runner = processRunnerRef.current;
+    if (!sourcePixels || !runner) return;
+    const pixels = sourcePixels.data.slice();
+    // A back crop from before a size change is stale until it is re-cropped
+    const back = backPixels && backPixels.width === sourcePixels.width && backPixels.height === sourcePixels.height
+        ? backPixels.data.slice() : null;
+    // Don't clobber an export's status with background processing progress
+    const showProgress = (state: ProcessingState) =>
+        setProcessing(prev => (prev.status === 'idle' || prev.status === 'processing' ? state : prev));
+    showProgress({ status: 'processing', message: 'Processing...', progress: 0 });
+    runner.run('process', {
+        pixels,
+        width: sourcePixels.width,
+        height: sourcePixels.height,
+        settings,
+        lockedColors,
+        silhouette: silhouetteMask,
+        textLayer,
+        backPixels: back
+    }, back ? [pixels.buffer, back.buffer] : [pixels.buffer], showProgress)
+        .then(result => {
+            setQuantizedData(result);
+            setProcessing(prev => (prev.status === 'processing' ? { status: 'idle' } : prev));
+        })
+        .catch(e => {
+            if (e instanceof PipelineCancelledError) return;
+            console.error(e);
+            setProcessing({ status: 'error', message: 'Processing failed.' });
+        });
+  }, [sourcePixels, settings.colorCount, settings.quantizeMode, settings.seed, lockedColors, settings.ditherMode, settings.ditherStrength, settings.ditherDotScale, settings.printProfile.nozzleDiameter, settings.smoothing,
+      settings.outlineShape, settings.cornerRadius, settings.holeEnabled, settings.holePosition, settings.holeOffset, settings.holeDiameter, settings.holeRingWidth, silhouetteMask, textLayer, backPixels,
+      settings.frameEnabled, settings.frameWidth, settings.frameInset, settings.frameSlot, settings.framePattern, settings.minIslandArea, settings.fixPrintability, settings.stackMode, stackKey, reliefKey]);
+
+  useEffect(() => {
+    saveFilamentLibrary(filaments);
+  }, [filaments]);
+
+  // Nearest owned filament for each palette entry
+  const filamentSuggestions = useMemo(
+    () => (quantizedData ? quantizedData.palette.map(c => findNearestFilament(c, filaments)) : []),
+    [quantizedData?.palette, filaments]
+  );
+
+  const getSlotFilament = (idx: number) => filaments.find(f => f.id === slotFilamentIds[idx]) || null;
 
   // Redraw preview
   useEffect(() => {
     if (quantizedData && canvasRef.current) {
-        drawQuantizedPreview(canvasRef.current, quantizedData.indices, quantizedData.palette);
+        // A luminance stack is shown in the colors its heights are predicted to print in
+        if (quantizedData.stack) drawQuantizedPreview(canvasRef.current, quantizedData.stack.levels, quantizedData.stack.colors);
+        // A relief on its own has no colors; show it backlit
+        else if (quantizedData.relief && settings.reliefMode === 'relief') drawReliefPreview(canvasRef.current, quantizedData.relief, settings.reliefMinThickness, settings.reliefMaxThickness);
+        else drawQuantizedPreview(canvasRef.current, quantizedData.indices, quantizedData.palette);
+    }
+    // Shown the way it reads once the bookmark is turned over
+    if (quantizedData?.backIndices && backCanvasRef.current) {
+        drawQuantizedPreview(backCanvasRef.current, mirrorIndices(quantizedData.backIndices, quantizedData.width, quantizedData.height), quantizedData.palette);
+    }
+  }, [quantizedData, previewMode]);
+
+  useEffect(() => {
+    if (showIssues && quantizedData && issueCanvasRef.current) {
+        drawIssueOverlay(issueCanvasRef.current, quantizedData.printability.thin, quantizedData.printability.islands);
     }
-  }, [quantizedData]);
+  }, [quantizedData, showIssues]);
+
+  // Back meshes follow the front ones and reuse their slot colors
+  const previewPalette = useMemo(
+    () => (quantizedData ? (quantizedData.backIndices ? [...quantizedData.palette, ...quantizedData.palette] : quantizedData.palette) : []),
+    [quantizedData]
+  );
 
 
+  // Build the 3D preview from the same meshes the exporters write, only while it is shown
+  useEffect(() => {
+    const runner = meshRunnerRef.current;
+    if (previewMode !== '3d' || !quantizedData || !runner) {
+        runner?.cancel();
+        setMeshLoading(false);
+        return;
+    }
+    setMeshLoading(true);
+    runner.run('mesh', { indices: quantizedData.indices, backIndices: quantizedData.backIndices, stack: quantizedData.stack, relief: quantizedData.relief, settings: getEffectiveSettings() })
+        .then(meshes => {
+            setPreviewMeshes(meshes);
+            setMeshLoading(false);
+        })
+        .catch(e => {
+            if (e instanceof PipelineCancelledError) return;
+            console.error(e);
+            setMeshLoading(false);
+        });
+  }, [previewMode, quantizedData, settings.isTactile, settings.baseHeight, settings.layerHeights, settings.meshMode, settings.contourTolerance, settings.contourSmoothing, settings.frameHeight, settings.backDepth, settings.reliefSlot,
+      settings.printProfile.firstLayerHeight, settings.printProfile.layerHeight, settings.printProfile.nozzleDiameter]);
+
+  // Heights snapped to the print profile's layers, as the exporters build them
+  const printSettings = useMemo(
+    () => getPrintSettings(settings, !!quantizedData?.backIndices),
+    [settings, quantizedData?.backIndices]
+  );
+  const getEffectiveSettings = (): BookmarkSettings => printSettings.settings;
+
+  // Re-estimate filament use from the export meshes whenever they would change
+  useEffect(() => {
+    const runner = usageRunnerRef.current;
+    if (!quantizedData || !runner) {
+        setUsage(null);
+        return;
+    }
+    setUsageLoading(true);
+    runner.run('usage', { indices: quantizedData.indices, backIndices: quantizedData.backIndices, stack: quantizedData.stack, relief: quantizedData.relief, settings: getEffectiveSettings() })
+        .then(result => {
+            setUsage(result);
+            setUsageLoading(false);
+        })
+        .catch(e => {
+            if (e instanceof PipelineCancelledError) return;
+            console.error(e);
+            setUsageLoading(false);
+        });
+  }, [quantizedData, settings.isTactile, settings.baseHeight, settings.layerHeights, settings.meshMode, settings.contourTolerance, settings.contourSmoothing, settings.frameHeight, settings.backDepth, settings.reliefSlot, settings.printProfile]);
+
   const handleDownload3MF = async () => {
-    if (!quantizedData || !imgSrc) return;
+    if (!quantizedData || !imgSrc || !exportRunnerRef.current) return;
     setProcessing({ status: 'generating_stl', message: 'Generating 3MF...' });
-    setTimeout(async () => {
-        try {
-            const effectiveSettings = { ...settings };
-            if (!settings.isTactile) effectiveSettings.layerHeights = [0.2, 0.2, 0.2, 0.2];
-            const thumbnailData = canvasRef.current?.toDataURL('image/png') || imgSrc;
-            const blob = await generate3MF(quantizedData.indices, effectiveSettings, quantizedData.palette, thumbnailData);
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url; a.download = 'bambu_bookmark_project.3mf'; a.click();
-            URL.revokeObjectURL(url);
-            setProcessing({ status: 'done', message: 'Download ready!' });
-            setTimeout(() => setProcessing({ status: 'idle' }), 3000);
-        } catch (e) {
-            console.error(e);
-            setProcessing({ status: 'error', message: 'Generation failed.' });
-        }
-    }, 100);
+    try {
+        const thumbnailData = canvasRef.current?.toDataURL('image/png') || imgSrc;
+        const filamentNames = quantizedData.palette.map((_, i) => {
+            const filament = getSlotFilament(i);
+            return filament ? getFilamentLabel(filament) : null;
+        });
+        const blob = await exportRunnerRef.current.run('3mf', {
+            indices: quantizedData.indices,
+            backIndices: quantizedData.backIndices,
+            stack: quantizedData.stack,
+            relief: quantizedData.relief,
+            settings: getEffectiveSettings(),
+            palette: quantizedData.palette,
+            thumbnailSrc: thumbnailData,
+            filamentNames
+        }, [], setProcessing);
+        downloadBlob(blob, 'bambu_bookmark_project.3mf');
+        setProcessing({ status: 'done', message: 'Download ready!' });
+        setTimeout(() => setProcessing({ status: 'idle' }), 3000);
+    } catch (e) {
+        if (e instanceof PipelineCancelledError) return;
+        console.error(e);
+        setProcessing({ status: 'error', message: 'Generation failed.' });
+    }
   };
 
   const handleDownloadSTL = async () => {
-    if (!quantizedData) return;
+    if (!quantizedData || !exportRunnerRef.current) return;
     setProcessing({ status: 'generating_stl', message: 'Generating STLs...' });
-    setTimeout(async () => {
-        try {
-            const effectiveSettings = { ...settings };
-            if (!settings.isTactile) effectiveSettings.layerHeights = [0.2, 0.2, 0.2, 0.2];
-            const stlBuffers = await generateSTLs(quantizedData.indices, effectiveSettings);
-            setProcessing({ status: 'zipping', message: 'Zipping STLs...' });
-            const zip = new JSZip();
-            Object.keys(stlBuffers).forEach(filename => { zip.file(filename, stlBuffers[filename]); });
-            const blob = await zip.generateAsync({ type: 'blob' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url; a.download = 'bookmark_stls.zip'; a.click();
-            URL.revokeObjectURL(url);
-            setProcessing({ status: 'done', message: 'Download ready!' });
-            setTimeout(() => setProcessing({ status: 'idle' }), 3000);
-        } catch (e) {
-            console.error(e);
-            setProcessing({ status: 'error', message: 'Generation failed.' });
+    try {
+        const blob = await exportRunnerRef.current.run('stl', {
+            indices: quantizedData.indices,
+            backIndices: quantizedData.backIndices,
+            stack: quantizedData.stack,
+            relief: quantizedData.relief,
+            settings: getEffectiveSettings(),
+            palette: quantizedData.palette
+        }, [], setProcessing);
+        downloadBlob(blob, 'bookmark_stls.zip');
+        setProcessing({ status: 'done', message: 'Download ready!' });
+        setTimeout(() => setProcessing({ status: 'idle' }), 3000);
+    } catch (e) {
+        if (e instanceof PipelineCancelledError) return;
+        console.error(e);
+        setProcessing({ status: 'error', message: 'Generation failed.' });
+    }
+  };
+
+  const handleRunBatch = async (items: BatchItem[], pack: boolean, plateSpacing: number) => {
+    if (!batchRunnerRef.current || items.length === 0) return;
+    const abort = new AbortController();
+    batchAbortRef.current = abort;
+    setBatchState({ status: 'processing', message: 'Starting...' });
+    try {
+        const filamentNames = Array.from({ length: settings.colorCount }, (_, i) => {
+            const filament = getSlotFilament(i);
+            return filament ? getFilamentLabel(filament) : null;
+        });
+        const result = await runBatch(items, {
+            settings,
+            lockedColors,
+            textBlocks,
+            silhouette: settings.outlineShape === 'silhouette' ? silhouetteMask : null,
+            filamentNames,
+            pack,
+            plateSpacing
+        }, batchRunnerRef.current, (message, progress) => setBatchState({ status: 'processing', message, progress }), abort.signal);
+        downloadBlob(result.zip, 'bookmark_batch.zip');
+        setBatchSkipped(result.skipped);
+        setBatchWarnings(result.warnings);
+        setBatchState({ status: 'done', message: 'Download ready!' });
+    } catch (e) {
+        if (e instanceof PipelineCancelledError) {
+            setBatchState({ status: 'idle' });
+            return;
+        }
+        console.error(e);
+        setBatchState({ status: 'error', message: 'Batch failed.' });
+    }
+  };
+
+  const handleSilhouetteUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        if (event.target?.result) {
+          setSilhouetteSrc(event.target.result as string);
+          setSettings(s => ({ ...s, outlineShape: 'silhouette' }));
         }
-    }, 100);
+      };
+      reader.readAsDataURL(file);
+    }
+    if (silhouetteInputRef.current) silhouetteInputRef.current.value = '';
+  };
+
+  // A new size changes the crop aspect, so send the original image back through the cropper
+  const updateSize = (widthMm: number, heightMm: number) => {
+    const w = Math.min(MAX_SIZE_MM, Math.max(MIN_SIZE_MM, widthMm || MIN_SIZE_MM));
+    const h = Math.min(MAX_SIZE_MM, Math.max(MIN_SIZE_MM, heightMm || MIN_SIZE_MM));
+    if (w === settings.widthMm && h === settings.heightMm) return;
+    setSettings(prev => ({ ...prev, widthMm: w, heightMm: h }));
+    if (sourceImgSrc && (imgSrc || rawImgSrc)) {
+      setRawImgSrc(sourceImgSrc);
+      setImgSrc(null);
+      setQuantizedData(null);
+    }
+    if (backSourceSrc && (backImgSrc || backRawSrc)) {
+      setBackRawSrc(backSourceSrc);
+      setBackImgSrc(null);
+    }
+  };
+
+  const canvasSize = getCanvasSize(settings.widthMm, settings.heightMm);
+  const previewScale = Math.min(PREVIEW_MAX_WIDTH / settings.widthMm, PREVIEW_MAX_HEIGHT / settings.heightMm);
+
+  const handleSelectSlot = (idx: number, color: RGB) => {
+    setEditingSlot(idx);
+    setDraftHex(rgbToHex(lockedColors[idx] || color));
+  };
+
+  const setSlotLock = (idx: number, color: RGB | null, filamentId: string | null = null) => {
+    setLockedColors(prev => prev.map((c, i) => (i === idx ? color : c)));
+    setSlotFilamentIds(prev => prev.map((id, i) => (i === idx ? filamentId : id)));
+  };
+
+  const handleAssignFilament = (idx: number, filament: Filament) => {
+    const color = hexToRgb(filament.hex);
+    if (color) setSlotLock(idx, color, filament.id);
+    if (filament.td !== undefined) {
+        const td = filament.td;
+        setSettings(s => ({ ...s, transmissionDistances: s.transmissionDistances.map((d, i) => (i === idx ? td : d)) }));
+    }
+  };
+
+  const handleLockDraft = () => {
+    const color = hexToRgb(draftHex);
+    if (editingSlot === null || !color) return;
+    setSlotLock(editingSlot, color);
+  };
+
+  const handleSeedDefaults = () => {
+    setLockedColors(prev => prev.map((c, i) => (i < settings.colorCount ? { ...DEFAULT_PALETTE[i] } : c)));
+    setSlotFilamentIds(prev => prev.map((id, i) => (i < settings.colorCount ? null : id)));
   };
 
   const updateLayerHeight = (idx: number, val: number) => {
-    const newHeights = [...settings.layerHeights] as [number, number, number, number];
+    const newHeights = [...settings.layerHeights];
     newHeights[idx] = val;
     setSettings(prev => ({ ...prev, layerHeights: newHeights }));
   };
@@ -182,7 +554,7 @@ export default function App() {
             </div>
             <div>
                 <h1 className="text-2xl font-bold tracking-tight text-slate-900">3D Bookmark Creator</h1>
-                <p className="text-slate-500 text-sm">Convert images to bold 4-color printable files</p>
+                <p className="text-slate-500 text-sm">Convert images to bold multi-color printable files</p>
             </div>
         </div>
         
@@ -198,14 +570,14 @@ export default function App() {
       </header>
 
       {/* Cropper Modal Overlay */}
-      {rawImgSrc && (
+      {cropSrc && (
           <div className="fixed inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-4 backdrop-blur-sm">
               <div className="relative w-full max-w-2xl h-[60vh] bg-slate-900 rounded-xl overflow-hidden shadow-2xl">
                   <Cropper
-                    image={rawImgSrc}
+                    image={cropSrc}
                     crop={crop}
                     zoom={zoom}
-                    aspect={5 / 16}
+                    aspect={settings.widthMm / settings.heightMm}
                     onCropChange={setCrop}
                     onCropComplete={onCropComplete}
                     onZoomChange={setZoom}
@@ -261,40 +633,221 @@ export default function App() {
                     <div className="flex justify-between w-full mb-6 items-center">
                          <h3 className="font-bold text-xl flex items-center gap-2 text-slate-800"><ImageIcon size={22} className="text-emerald-500" /> Preview</h3>
                          <div className="flex gap-4">
-                            <button onClick={() => { setRawImgSrc(imgSrc); setImgSrc(null); }} className="text-xs font-bold text-emerald-600 hover:bg-emerald-50 px-3 py-1.5 rounded-lg border border-emerald-100 flex items-center gap-1 transition-all">
+                            <div className="flex bg-slate-200 p-1 rounded-lg">
+                                <button 
+                                    onClick={() => setPreviewMode('2d')}
+                                    className={`px-3 py-1 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${previewMode === '2d' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                                >
+                                    2D
+                                </button>
+                                {quantizedData?.backIndices && (
+                                    <button 
+                                        onClick={() => setPreviewMode('back')}
+                                        className={`px-3 py-1 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${previewMode === 'back' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                                    >
+                                        Back
+                                    </button>
+                                )}
+                                <button 
+                                    onClick={() => setPreviewMode('3d')}
+                                    disabled={!quantizedData}
+                                    className={`px-3 py-1 text-[11px] font-black uppercase tracking-wider rounded-md transition-all flex items-center gap-1 disabled:opacity-30 ${previewMode === '3d' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                                >
+                                    <Box size={12} /> 3D
+                                </button>
+                            </div>
+                            <button onClick={() => { setRawImgSrc(sourceImgSrc || imgSrc); setImgSrc(null); }} className="text-xs font-bold text-emerald-600 hover:bg-emerald-50 px-3 py-1.5 rounded-lg border border-emerald-100 flex items-center gap-1 transition-all">
                                 <CropIcon size={14} /> Adjust Crop
                             </button>
-                            <span className="text-xs font-mono font-bold bg-slate-100 px-2 py-1.5 rounded-lg text-slate-500 tracking-tight">50mm x 160mm</span>
+                            <span className="text-xs font-mono font-bold bg-slate-100 px-2 py-1.5 rounded-lg text-slate-500 tracking-tight">{settings.widthMm}mm x {settings.heightMm}mm</span>
                          </div>
                     </div>
                    
-                    <div className="relative shadow-2xl bg-slate-900 p-2 rounded-2xl overflow-hidden border-4 border-slate-800">
+                    {/* The 2D canvas stays mounted in 3D mode: it also supplies the 3MF thumbnail */}
+                    <div className={`relative shadow-2xl bg-slate-900 p-2 rounded-2xl overflow-hidden border-4 border-slate-800 ${previewMode !== '2d' ? 'hidden' : ''}`}>
                          <canvas 
                             ref={canvasRef} 
-                            width={CANVAS_WIDTH} 
-                            height={CANVAS_HEIGHT} 
-                            className="w-[180px] h-[576px] object-contain block"
-                            style={{ imageRendering: 'pixelated' }}
+                            width={quantizedData?.width ?? canvasSize.width} 
+                            height={quantizedData?.height ?? canvasSize.height} 
+                            className="object-contain block"
+                            style={{ imageRendering: 'pixelated', width: settings.widthMm * previewScale, height: settings.heightMm * previewScale }}
                          />
+                         {showIssues && quantizedData && (
+                             <canvas
+                                ref={issueCanvasRef}
+                                width={quantizedData.width}
+                                height={quantizedData.height}
+                                className="absolute top-2 left-2 block pointer-events-none"
+                                style={{ imageRendering: 'pixelated', width: settings.widthMm * previewScale, height: settings.heightMm * previewScale }}
+                             />
+                         )}
                     </div>
+
+                    {quantizedData && previewMode === '2d' && (
+                        <div className="flex items-center gap-4 mt-3 text-[11px] font-bold">
+                            {quantizedData.printability.thinPixels === 0 && quantizedData.printability.islandCount === 0 ? (
+                                <span className="text-emerald-600 flex items-center gap-1"><Check size={14} /> No printability issues</span>
+                            ) : (
+                                <span className="text-amber-700 flex items-center gap-1">
+                                    <AlertTriangle size={14} />
+                                    {(quantizedData.printability.thinPixels / (RES_PPM * RES_PPM)).toFixed(1)} mm² thinner than the nozzle · {quantizedData.printability.islandCount} small islands
+                                </span>
+                            )}
+                            <label className="flex items-center gap-1.5 text-slate-500 cursor-pointer">
+                                <input type="checkbox" checked={showIssues} onChange={(e) => setShowIssues(e.target.checked)} className="accent-emerald-600" />
+                                Show issues
+                            </label>
+                        </div>
+                    )}
+
+                    {previewMode === 'back' && quantizedData?.backIndices && (
+                        <div className="relative shadow-2xl bg-slate-900 p-2 rounded-2xl overflow-hidden border-4 border-slate-800">
+                             <canvas
+                                ref={backCanvasRef}
+                                width={quantizedData.width}
+                                height={quantizedData.height}
+                                className="object-contain block"
+                                style={{ imageRendering: 'pixelated', width: settings.widthMm * previewScale, height: settings.heightMm * previewScale }}
+                             />
+                        </div>
+                    )}
+
+                    {previewMode === '3d' && quantizedData && (
+                        <BookmarkViewer
+                            meshes={previewMeshes}
+                            palette={previewPalette}
+                            heightMm={settings.heightMm}
+                            width={PREVIEW_MAX_WIDTH}
+                            height={PREVIEW_MAX_HEIGHT}
+                            loading={meshLoading}
+                        />
+                    )}
                     
                     {quantizedData && (
-                        <div className="flex gap-6 mt-8 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                        <div className="flex flex-wrap justify-center gap-6 mt-8 p-4 bg-slate-50 rounded-2xl border border-slate-100">
                             {quantizedData.palette.map((c, i) => (
                                 <div key={i} className="flex flex-col items-center gap-2">
                                     <div 
-                                        className="w-12 h-12 rounded-2xl border-2 border-white shadow-lg relative transform hover:scale-110 transition-transform cursor-pointer"
+                                        onClick={() => handleSelectSlot(i, c)}
+                                        className={`w-12 h-12 rounded-2xl border-2 shadow-lg relative transform hover:scale-110 transition-transform cursor-pointer ${editingSlot === i ? 'border-emerald-500 ring-2 ring-emerald-200' : 'border-white'}`}
                                         style={{ backgroundColor: `rgb(${c.r},${c.g},${c.b})` }}
                                     >
                                         {i === 0 && (
                                             <div className="absolute -top-3 -right-3 bg-slate-900 text-white text-[9px] px-2 py-0.5 rounded-full font-bold uppercase tracking-wider shadow-md">Base</div>
                                         )}
+                                        {lockedColors[i] && (
+                                            <div className="absolute -bottom-2 -right-2 bg-white text-slate-700 p-1 rounded-full shadow-md"><Lock size={10} /></div>
+                                        )}
                                     </div>
                                     <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Slot {i+1}</span>
+                                    {getSlotFilament(i) ? (
+                                        <span className="w-16 text-[9px] text-emerald-700 font-bold text-center truncate" title={getFilamentLabel(getSlotFilament(i)!)}>{getSlotFilament(i)!.name}</span>
+                                    ) : filamentSuggestions[i] && (
+                                        <button
+                                            onClick={() => handleAssignFilament(i, filamentSuggestions[i]!.filament)}
+                                            className="w-16 text-[9px] text-slate-400 hover:text-emerald-600 font-bold text-center truncate"
+                                            title={`Use ${getFilamentLabel(filamentSuggestions[i]!.filament)} (ΔE ${filamentSuggestions[i]!.deltaE.toFixed(1)})`}
+                                        >
+                                            ≈ {filamentSuggestions[i]!.filament.name}
+                                        </button>
+                                    )}
                                 </div>
                             ))}
                         </div>
                     )}
+
+                    {quantizedData && (
+                        <FilamentUsageTable
+                            usage={usage}
+                            palette={quantizedData.palette}
+                            filamentNames={quantizedData.palette.map((_, i) => getSlotFilament(i)?.name ?? null)}
+                            loading={usageLoading}
+                        />
+                    )}
+
+                    {quantizedData?.stack && (
+                        <div className="w-full mt-4 p-4 bg-white rounded-2xl border border-slate-200">
+                            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Filament Changes</span>
+                            <ol className="mt-3 space-y-1.5 text-xs text-slate-600">
+                                {[{ slot: quantizedData.stack.bands[0].slot, layer: 1, z: 0 }, ...getFilamentSwaps(quantizedData.stack, getEffectiveSettings())].map(swap => {
+                                    const c = quantizedData.palette[swap.slot];
+                                    return (
+                                        <li key={swap.layer} className="flex items-center gap-2">
+                                            <span className="w-3 h-3 rounded-full border border-slate-200" style={{ backgroundColor: `rgb(${c.r},${c.g},${c.b})` }} />
+                                            <span className="font-mono font-bold w-32">Layer {swap.layer} · {swap.z.toFixed(2)}mm</span>
+                                            <span className="font-bold">{getSlotFilament(swap.slot)?.name ?? `Slot ${swap.slot + 1}`}</span>
+                                        </li>
+                                    );
+                                })}
+                            </ol>
+                            <p className="text-[10px] text-slate-400 mt-3 font-medium">The 3MF carries these changes for Bambu Studio; the STL download includes them as a text file.</p>
+                        </div>
+                    )}
+
+                    {/* Palette Slot Editor */}
+                    {quantizedData && editingSlot !== null && editingSlot < settings.colorCount && (
+                        <div className="w-full mt-4 p-4 bg-white rounded-2xl border border-slate-200 flex flex-wrap items-center gap-3">
+                            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Slot {editingSlot + 1}</span>
+                            <input
+                                type="color"
+                                value={(hexToRgb(draftHex) ? rgbToHex(hexToRgb(draftHex)!) : '#FFFFFF').toLowerCase()}
+                                onChange={(e) => setDraftHex(e.target.value.toUpperCase())}
+                                className="w-10 h-10 rounded-lg border border-slate-200 cursor-pointer"
+                            />
+                            <input
+                                type="text"
+                                value={draftHex}
+                                onChange={(e) => setDraftHex(e.target.value)}
+                                className={`w-24 text-sm font-mono font-bold border rounded-lg px-2 py-1.5 ${hexToRgb(draftHex) ? 'border-slate-200 text-slate-700' : 'border-red-300 text-red-500'}`}
+                            />
+                            <button
+                                onClick={handleLockDraft}
+                                disabled={!hexToRgb(draftHex)}
+                                className="text-xs font-bold text-white bg-emerald-600 hover:bg-emerald-700 px-3 py-2 rounded-lg flex items-center gap-1 transition-all disabled:opacity-30"
+                            >
+                                <Lock size={14} /> Lock Color
+                            </button>
+                            {filaments.length > 0 && (
+                                <select
+                                    value={slotFilamentIds[editingSlot] || ''}
+                                    onChange={(e) => {
+                                        const filament = filaments.find(f => f.id === e.target.value);
+                                        if (filament) handleAssignFilament(editingSlot, filament);
+                                    }}
+                                    className="text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-2 max-w-[180px]"
+                                >
+                                    <option value="" disabled>From library...</option>
+                                    {filaments.map(f => (
+                                        <option key={f.id} value={f.id}>{getFilamentLabel(f)}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {lockedColors[editingSlot] && (
+                                <button
+                                    onClick={() => setSlotLock(editingSlot, null)}
+                                    className="text-xs font-bold text-slate-600 hover:bg-slate-50 px-3 py-2 rounded-lg border border-slate-200 flex items-center gap-1 transition-all"
+                                >
+                                    <Unlock size={14} /> Unlock
+                                </button>
+                            )}
+                            <button onClick={() => setEditingSlot(null)} className="ml-auto text-slate-400 hover:text-slate-600 p-1">
+                                <X size={16} />
+                            </button>
+                        </div>
+                    )}
+
+                    {quantizedData && (
+                        <div className="flex gap-4 mt-3">
+                            <button onClick={handleSeedDefaults} className="text-[11px] font-bold text-emerald-600 hover:underline">
+                                Lock default filaments
+                            </button>
+                            {lockedColors.some(c => c) && (
+                                <button onClick={() => { setLockedColors(new Array(MAX_COLORS).fill(null)); setSlotFilamentIds(new Array(MAX_COLORS).fill(null)); }} className="text-[11px] font-bold text-slate-400 hover:underline">
+                                    Unlock all
+                                </button>
+                            )}
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -316,21 +869,21 @@ export default function App() {
                         <span className="bg-slate-100 text-slate-600 font-bold w-7 h-7 flex items-center justify-center rounded-full shrink-0 text-xs mt-0.5 border border-slate-200">2</span>
                         <span>
                              <strong className="text-slate-900 block mb-1">Import into Bambu Studio</strong>
-                             Drag your file(s) onto the build plate. If the slicer asks to "Load as a single object with multiple parts," always select <strong className="text-emerald-700">YES</strong> to ensure the layers stay perfectly aligned.
+                             Open the 3MF as a project in Bambu Studio or OrcaSlicer. For STLs, drag them onto the build plate and, if the slicer asks to "Load as a single object with multiple parts," always select <strong className="text-emerald-700">YES</strong> to ensure the layers stay perfectly aligned.
                         </span>
                     </li>
                     <li className="flex gap-4 text-sm text-slate-600">
                         <span className="bg-slate-100 text-slate-600 font-bold w-7 h-7 flex items-center justify-center rounded-full shrink-0 text-xs mt-0.5 border border-slate-200">3</span>
                         <span>
-                             <strong className="text-slate-900 block mb-1">Locate the Parts</strong>
-                             Switch to the <em>Objects</em> tab in the left-hand sidebar to see each color layer and the base plate listed as distinct components. <strong className="text-emerald-600 font-bold">Note: Your object will likely appear monochrome until you assign AMS colors to the four individual objects!</strong>
+                             <strong className="text-slate-900 block mb-1">Check the Filaments</strong>
+                             The 3MF already assigns every layer to filament slot 1 to {settings.colorCount} in its preview color, with your layer height and purge settings. Load the matching filament into each AMS slot.
                         </span>
                     </li>
                      <li className="flex gap-4 text-sm text-slate-600">
                         <span className="bg-slate-100 text-slate-600 font-bold w-7 h-7 flex items-center justify-center rounded-full shrink-0 text-xs mt-0.5 border border-slate-200">4</span>
                         <span>
-                             <strong className="text-slate-900 block mb-1">Assign AMS Colors</strong>
-                             Select a layer from the list and press the number on your keyboard (1, 2, 3, or 4) that matches the filament slot in your AMS.
+                             <strong className="text-slate-900 block mb-1">Assign AMS Colors (STLs)</strong>
+                             Switch to the <em>Objects</em> tab, select a layer from the list and press the number on your keyboard (1 to {settings.colorCount}) that matches the filament slot in your AMS. The same works to move a 3MF layer to another slot.
                         </span>
                     </li>
                 </ul>
@@ -360,7 +913,328 @@ export default function App() {
                 </div>
 
                 <div className="space-y-8">
+
+                    {/* Bookmark Size */}
+                    <div>
+                         <div className="flex justify-between mb-2">
+                             <label className="text-sm font-bold text-slate-700">Bookmark Size</label>
+                             <span className="text-xs font-bold bg-slate-100 px-2 py-1 rounded-lg text-slate-600">{settings.widthMm} x {settings.heightMm}mm</span>
+                         </div>
+                         <div className="grid grid-cols-4 gap-2 mb-3">
+                             {SIZE_PRESETS.map(p => (
+                                 <button
+                                    key={p.label}
+                                    onClick={() => updateSize(p.widthMm, p.heightMm)}
+                                    className={`py-1.5 text-[10px] font-black uppercase tracking-wider rounded-md border transition-all ${settings.widthMm === p.widthMm && settings.heightMm === p.heightMm ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                                 >
+                                    {p.label}
+                                 </button>
+                             ))}
+                         </div>
+                         <div className="flex items-center gap-2">
+                             <input
+                                type="number" min={MIN_SIZE_MM} max={MAX_SIZE_MM}
+                                key={`w-${settings.widthMm}`}
+                                defaultValue={settings.widthMm}
+                                onBlur={(e) => updateSize(parseFloat(e.target.value), settings.heightMm)}
+                                className="w-full text-sm font-bold text-slate-700 border border-slate-200 rounded-lg px-3 py-1.5"
+                             />
+                             <span className="text-xs font-bold text-slate-400">x</span>
+                             <input
+                                type="number" min={MIN_SIZE_MM} max={MAX_SIZE_MM}
+                                key={`h-${settings.heightMm}`}
+                                defaultValue={settings.heightMm}
+                                onBlur={(e) => updateSize(settings.widthMm, parseFloat(e.target.value))}
+                                className="w-full text-sm font-bold text-slate-700 border border-slate-200 rounded-lg px-3 py-1.5"
+                             />
+                             <span className="text-xs font-bold text-slate-400">mm</span>
+                         </div>
+                         <p className="text-[10px] text-slate-400 mt-2 font-medium">Changing the size re-opens the cropper with the new aspect ratio.</p>
+                    </div>
+
+                    {/* Outline Shape */}
+                    <div>
+                         <div className="flex justify-between items-center mb-2">
+                             <label className="text-sm font-bold text-slate-700">Outline</label>
+                             <select
+                                value={settings.outlineShape}
+                                onChange={(e) => setSettings(s => ({...s, outlineShape: e.target.value as OutlineShape}))}
+                                className="text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                             >
+                                {OUTLINE_SHAPES.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                             </select>
+                         </div>
+                         {settings.outlineShape === 'silhouette' ? (
+                             <div className="flex items-center gap-3 mt-3">
+                                 <button
+                                    onClick={() => silhouetteInputRef.current?.click()}
+                                    className="text-xs font-bold text-emerald-600 hover:bg-emerald-50 px-3 py-2 rounded-lg border border-emerald-100 flex items-center gap-1 transition-all"
+                                 >
+                                    <Upload size={14} /> {silhouetteSrc ? 'Replace Mask' : 'Upload Mask'}
+                                 </button>
+                                 {silhouetteSrc && <img src={silhouetteSrc} alt="Silhouette mask" className="h-10 rounded border border-slate-200 bg-slate-50" />}
+                             </div>
+                         ) : (
+                             <div className="flex items-center gap-4 mt-3">
+                                 <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Corners</div>
+                                 <input 
+                                    type="range" min="0" max="10" step="0.5"
+                                    value={settings.cornerRadius}
+                                    onChange={(e) => setSettings(s => ({...s, cornerRadius: parseFloat(e.target.value)}))}
+                                    className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                 />
+                                 <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.cornerRadius}mm</span>
+                             </div>
+                         )}
+                         <input type="file" ref={silhouetteInputRef} onChange={handleSilhouetteUpload} accept="image/*" className="hidden" />
+                         <p className="text-[10px] text-slate-400 mt-2 font-medium">
+                            {settings.outlineShape === 'silhouette' ? 'The mask is stretched over the bookmark. Transparent (or, without transparency, light) areas are cut away.' : 'Image pixels outside the outline are removed from every color layer.'}
+                         </p>
+                    </div>
+
+                    {/* Tassel Hole */}
+                    <div>
+                         <label className="flex items-center justify-between">
+                             <span className="text-sm font-bold text-slate-700">Tassel Hole</span>
+                             <input
+                                type="checkbox"
+                                checked={settings.holeEnabled}
+                                onChange={(e) => setSettings(s => ({...s, holeEnabled: e.target.checked}))}
+                                className="accent-emerald-600"
+                             />
+                         </label>
+                         {settings.holeEnabled && (
+                             <div className="space-y-3 mt-4">
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Position</div>
+                                     <select
+                                        value={settings.holePosition}
+                                        onChange={(e) => setSettings(s => ({...s, holePosition: e.target.value as 'top' | 'bottom'}))}
+                                        className="flex-1 text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                                     >
+                                        <option value="top">Top</option>
+                                        <option value="bottom">Bottom</option>
+                                     </select>
+                                 </div>
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">From Edge</div>
+                                     <input 
+                                        type="range" min="3" max="30" step="0.5"
+                                        value={settings.holeOffset}
+                                        onChange={(e) => setSettings(s => ({...s, holeOffset: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                     />
+                                     <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.holeOffset}mm</span>
+                                 </div>
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Diameter</div>
+                                     <input 
+                                        type="range" min="2" max="10" step="0.5"
+                                        value={settings.holeDiameter}
+                                        onChange={(e) => setSettings(s => ({...s, holeDiameter: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                     />
+                                     <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.holeDiameter}mm</span>
+                                 </div>
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Ring</div>
+                                     <input 
+                                        type="range" min="0" max="4" step="0.5"
+                                        value={settings.holeRingWidth}
+                                        onChange={(e) => setSettings(s => ({...s, holeRingWidth: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                     />
+                                     <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.holeRingWidth}mm</span>
+                                 </div>
+                                 <p className="text-[10px] text-slate-400 font-medium">The ring around the hole is solid Slot 1 (base) color, fused with the base plate for strength.</p>
+                             </div>
+                         )}
+                    </div>
+
+                    {/* Frame */}
+                    <div>
+                         <label className="flex items-center justify-between">
+                             <span className="text-sm font-bold text-slate-700">Frame</span>
+                             <input
+                                type="checkbox"
+                                checked={settings.frameEnabled}
+                                onChange={(e) => setSettings(s => ({...s, frameEnabled: e.target.checked}))}
+                                className="accent-emerald-600"
+                             />
+                         </label>
+                         {settings.frameEnabled && (
+                             <div className="space-y-3 mt-4">
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Color</div>
+                                     <select
+                                        value={Math.min(settings.frameSlot, settings.colorCount - 1)}
+                                        onChange={(e) => setSettings(s => ({...s, frameSlot: parseInt(e.target.value)}))}
+                                        className="flex-1 text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                                     >
+                                        {Array.from({ length: settings.colorCount }, (_, i) => (
+                                            <option key={i} value={i}>Slot {i + 1}</option>
+                                        ))}
+                                     </select>
+                                 </div>
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Pattern</div>
+                                     <select
+                                        value={settings.framePattern}
+                                        onChange={(e) => setSettings(s => ({...s, framePattern: e.target.value as FramePattern}))}
+                                        className="flex-1 text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                                     >
+                                        {FRAME_PATTERNS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                                     </select>
+                                 </div>
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Width</div>
+                                     <input 
+                                        type="range" min="0.5" max="8" step="0.5"
+                                        value={settings.frameWidth}
+                                        onChange={(e) => setSettings(s => ({...s, frameWidth: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                     />
+                                     <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.frameWidth}mm</span>
+                                 </div>
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Inset</div>
+                                     <input 
+                                        type="range" min="0" max="8" step="0.5"
+                                        value={settings.frameInset}
+                                        onChange={(e) => setSettings(s => ({...s, frameInset: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                     />
+                                     <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.frameInset}mm</span>
+                                 </div>
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Height</div>
+                                     <input 
+                                        type="range" min="0.2" max="3" step="0.1"
+                                        value={settings.frameHeight}
+                                        onChange={(e) => setSettings(s => ({...s, frameHeight: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                     />
+                                     <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.frameHeight}mm</span>
+                                 </div>
+                                 <p className="text-[10px] text-slate-400 font-medium">Painted over the image along the outline and exported as part of the chosen slot's object. Height is measured from the top of the base plate.</p>
+                             </div>
+                         )}
+                    </div>
+
+                    {/* Text */}
+                    <TextLayerEditor
+                        blocks={textBlocks}
+                        onChange={setTextBlocks}
+                        colorCount={settings.colorCount}
+                        palette={quantizedData?.palette ?? null}
+                        widthMm={settings.widthMm}
+                        heightMm={settings.heightMm}
+                    />
+
+                    {/* Back Side */}
+                    <div>
+                         <div className="flex justify-between items-center mb-2">
+                             <label className="text-sm font-bold text-slate-700">Back Side</label>
+                             <div className="flex gap-2">
+                                 {backSourceSrc && (
+                                     <button
+                                        onClick={() => { setBackRawSrc(backSourceSrc); setBackImgSrc(null); }}
+                                        className="text-xs font-bold text-emerald-600 hover:bg-emerald-50 px-3 py-1.5 rounded-lg border border-emerald-100 flex items-center gap-1 transition-all"
+                                     >
+                                        <CropIcon size={14} /> Crop
+                                     </button>
+                                 )}
+                                 <button
+                                    onClick={() => backInputRef.current?.click()}
+                                    className="text-xs font-bold text-emerald-600 hover:bg-emerald-50 px-3 py-1.5 rounded-lg border border-emerald-100 flex items-center gap-1 transition-all"
+                                 >
+                                    <Upload size={14} /> {backSourceSrc ? 'Replace' : 'Add Back Image'}
+                                 </button>
+                                 {backSourceSrc && (
+                                     <button onClick={handleRemoveBack} className="text-slate-400 hover:text-red-500 p-1" title="Remove back image">
+                                        <X size={16} />
+                                     </button>
+                                 )}
+                             </div>
+                         </div>
+                         <input type="file" ref={backInputRef} onChange={handleBackUpload} accept="image/*" className="hidden" />
+                         {backSourceSrc && (
+                             <div className="flex items-center gap-4 mt-3">
+                                 <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Depth</div>
+                                 <input 
+                                    type="range" min={settings.printProfile.firstLayerHeight} max={Math.max(settings.printProfile.firstLayerHeight, settings.baseHeight / 2)} step={settings.printProfile.layerHeight}
+                                    value={Math.min(settings.backDepth, settings.baseHeight / 2)}
+                                    onChange={(e) => setSettings(s => ({...s, backDepth: parseFloat(e.target.value)}))}
+                                    className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                 />
+                                 <span className="w-12 text-xs font-bold text-right text-slate-500">{getBackDepth(printSettings.settings) > 0 ? `${getBackDepth(printSettings.settings)}mm` : 'Off'}</span>
+                             </div>
+                         )}
+                         <p className="text-[10px] text-slate-400 mt-2 font-medium">
+                            Optional second image, printed into the bottom of the base plate with the same filaments. It is mirrored automatically so it reads correctly from behind.
+                         </p>
+                    </div>
                     
+                    {/* Color Count */}
+                    <div>
+                         <div className="flex justify-between mb-2">
+                             <label className="text-sm font-bold text-slate-700">Filament Colors</label>
+                             <span className="text-xs font-bold bg-slate-100 px-2 py-1 rounded-lg text-slate-600">{settings.colorCount} colors</span>
+                         </div>
+                         <input 
+                            type="range" min={MIN_COLORS} max={MAX_COLORS} step="1"
+                            value={settings.colorCount}
+                            onChange={(e) => setSettings(s => ({...s, colorCount: parseInt(e.target.value)}))}
+                            className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                         />
+                         <p className="text-[10px] text-slate-400 mt-2 font-medium">One palette slot per filament. Match this to the AMS slots you plan to use.</p>
+                    </div>
+
+                    {/* Quantization Mode */}
+                    <div className="flex items-center justify-between bg-slate-50 p-3 rounded-xl border border-slate-100">
+                        <span className="text-sm font-bold text-slate-600">Color Matching</span>
+                        <div className="flex bg-slate-200 p-1 rounded-lg">
+                            <button 
+                                onClick={() => setSettings(s => ({...s, quantizeMode: 'rgb'}))}
+                                className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${settings.quantizeMode === 'rgb' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                            >
+                                Bold
+                            </button>
+                            <button 
+                                onClick={() => setSettings(s => ({...s, quantizeMode: 'lab'}))}
+                                className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${settings.quantizeMode === 'lab' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                            >
+                                Perceptual
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Seed */}
+                    <div>
+                         <div className="flex justify-between mb-2">
+                             <label className="text-sm font-bold text-slate-700">Palette Seed</label>
+                         </div>
+                         <div className="flex items-center gap-2">
+                             <input
+                                type="number" min="0" step="1"
+                                key={`seed-${settings.seed}`}
+                                defaultValue={settings.seed}
+                                onBlur={(e) => {
+                                    const seed = parseInt(e.target.value);
+                                    if (!isNaN(seed) && seed >= 0) setSettings(s => ({...s, seed: seed >>> 0}));
+                                }}
+                                className="w-full text-sm font-mono font-bold text-slate-700 border border-slate-200 rounded-lg px-3 py-1.5"
+                             />
+                             <button
+                                onClick={() => setSettings(s => ({...s, seed: randomSeed()}))}
+                                className="text-xs font-bold text-emerald-600 hover:bg-emerald-50 px-3 py-2 rounded-lg border border-emerald-100 flex items-center gap-1 transition-all shrink-0"
+                             >
+                                <Dices size={14} /> Re-roll
+                             </button>
+                         </div>
+                         <p className="text-[10px] text-slate-400 mt-2 font-medium">The same seed always gives the same palette. It is saved in the 3MF so a design can be regenerated.</p>
+                    </div>
+
                     {/* Smoothing Slider */}
                     <div>
                          <div className="flex justify-between mb-2">
@@ -372,10 +1246,191 @@ export default function App() {
                          <input 
                             type="range" min="0" max="5" step="1"
                             value={settings.smoothing}
+                            disabled={settings.ditherMode !== 'none'}
                             onChange={(e) => setSettings(s => ({...s, smoothing: parseInt(e.target.value)}))}
+                            className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600 disabled:opacity-30"
+                         />
+                         <p className="text-[10px] text-slate-400 mt-2 font-medium">
+                            {settings.ditherMode === 'none' ? 'Higher smoothness merges small pixels into larger, cleaner blocks of color.' : 'Smoothing is off while dithering is active.'}
+                         </p>
+                    </div>
+
+                    {/* Dithering */}
+                    <div>
+                         <div className="flex justify-between items-center mb-2">
+                             <label className="text-sm font-bold text-slate-700">Dithering</label>
+                             <select
+                                value={settings.ditherMode}
+                                onChange={(e) => setSettings(s => ({...s, ditherMode: e.target.value as DitherMode}))}
+                                className="text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                             >
+                                {DITHER_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                             </select>
+                         </div>
+                         {settings.ditherMode !== 'none' && (
+                             <div className="space-y-3 mt-4">
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Strength</div>
+                                     <input 
+                                        type="range" min="0.1" max="1" step="0.1"
+                                        value={settings.ditherStrength}
+                                        onChange={(e) => setSettings(s => ({...s, ditherStrength: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                     />
+                                     <span className="w-12 text-xs font-bold text-right text-slate-500">{Math.round(settings.ditherStrength * 100)}%</span>
+                                 </div>
+                                 <div className="flex items-center gap-4">
+                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Dot Size</div>
+                                     <input 
+                                        type="range" min="1" max="4" step="0.5"
+                                        value={settings.ditherDotScale}
+                                        onChange={(e) => setSettings(s => ({...s, ditherDotScale: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                     />
+                                     <span className="w-12 text-xs font-bold text-right text-slate-500">{(settings.printProfile.nozzleDiameter * settings.ditherDotScale).toFixed(2)}</span>
+                                 </div>
+                                 <p className="text-[10px] text-slate-400 font-medium">Dots are never smaller than the dot size (mm), so the {settings.printProfile.nozzleDiameter}mm nozzle from the print profile can actually print them.</p>
+                             </div>
+                         )}
+                    </div>
+
+                    {/* Print Profile */}
+                    <div>
+                         <div className="flex justify-between items-center mb-2">
+                             <label className="text-sm font-bold text-slate-700">Print Profile</label>
+                             <select
+                                value={PRINT_PROFILE_PRESETS.findIndex(p => p.firstLayerHeight === settings.printProfile.firstLayerHeight && p.layerHeight === settings.printProfile.layerHeight)}
+                                onChange={(e) => {
+                                    const preset = PRINT_PROFILE_PRESETS[parseInt(e.target.value)];
+                                    if (preset) setSettings(s => ({...s, printProfile: { ...s.printProfile, firstLayerHeight: preset.firstLayerHeight, layerHeight: preset.layerHeight }}));
+                                }}
+                                className="text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                             >
+                                <option value={-1} disabled>Custom</option>
+                                {PRINT_PROFILE_PRESETS.map((p, i) => <option key={p.label} value={i}>{p.label}</option>)}
+                             </select>
+                         </div>
+                         <div className="grid grid-cols-3 gap-2">
+                             {([['First Layer', 'firstLayerHeight'], ['Layer', 'layerHeight']] as const).map(([label, key]) => (
+                                 <label key={key} className="flex flex-col gap-1">
+                                     <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">{label}</span>
+                                     <input
+                                        type="number" min="0.04" max="0.4" step="0.02"
+                                        key={`${key}-${settings.printProfile[key]}`}
+                                        defaultValue={settings.printProfile[key]}
+                                        onBlur={(e) => {
+                                            const value = parseFloat(e.target.value);
+                                            if (value >= 0.04 && value <= 0.4) setSettings(s => ({...s, printProfile: { ...s.printProfile, [key]: value }}));
+                                        }}
+                                        className="w-full text-sm font-mono font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5"
+                                     />
+                                 </label>
+                             ))}
+                             <label className="flex flex-col gap-1">
+                                 <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Nozzle</span>
+                                 <select
+                                    value={settings.printProfile.nozzleDiameter}
+                                    onChange={(e) => setSettings(s => ({...s, printProfile: { ...s.printProfile, nozzleDiameter: parseFloat(e.target.value)}}))}
+                                    className="w-full text-sm font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5"
+                                 >
+                                    {NOZZLE_OPTIONS.map(n => <option key={n} value={n}>{n} mm</option>)}
+                                 </select>
+                             </label>
+                         </div>
+                         <div className="grid grid-cols-3 gap-2 mt-2">
+                             <label className="flex flex-col gap-1">
+                                 <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Material</span>
+                                 <select
+                                    value={FILAMENT_MATERIALS.findIndex(m => m.label === settings.printProfile.filamentMaterial)}
+                                    onChange={(e) => {
+                                        const material = FILAMENT_MATERIALS[parseInt(e.target.value)];
+                                        if (material) setSettings(s => ({...s, printProfile: { ...s.printProfile, filamentMaterial: material.label, filamentDensity: material.density }}));
+                                    }}
+                                    className="w-full text-sm font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5"
+                                 >
+                                    {FILAMENT_MATERIALS.map((m, i) => <option key={m.label} value={i}>{m.label}</option>)}
+                                 </select>
+                             </label>
+                             <label className="flex flex-col gap-1">
+                                 <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Filament</span>
+                                 <select
+                                    value={settings.printProfile.filamentDiameter}
+                                    onChange={(e) => setSettings(s => ({...s, printProfile: { ...s.printProfile, filamentDiameter: parseFloat(e.target.value)}}))}
+                                    className="w-full text-sm font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5"
+                                 >
+                                    {FILAMENT_DIAMETERS.map(d => <option key={d} value={d}>{d} mm</option>)}
+                                 </select>
+                             </label>
+                             <label className="flex flex-col gap-1">
+                                 <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Purge mm³</span>
+                                 <input
+                                    type="number" min="0" max="2000" step="10"
+                                    key={`purge-${settings.printProfile.purgeVolume}`}
+                                    defaultValue={settings.printProfile.purgeVolume}
+                                    onBlur={(e) => {
+                                        const value = parseFloat(e.target.value);
+                                        if (value >= 0 && value <= 2000) setSettings(s => ({...s, printProfile: { ...s.printProfile, purgeVolume: value }}));
+                                    }}
+                                    className="w-full text-sm font-mono font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5"
+                                 />
+                             </label>
+                         </div>
+                         <div className="grid grid-cols-3 gap-2 mt-2">
+                             <label className="flex flex-col gap-1">
+                                 <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Bed</span>
+                                 <select
+                                    value={BED_PRESETS.findIndex(b => b.width === settings.printProfile.bedWidth && b.depth === settings.printProfile.bedDepth)}
+                                    onChange={(e) => {
+                                        const bed = BED_PRESETS[parseInt(e.target.value)];
+                                        if (bed) setSettings(s => ({...s, printProfile: { ...s.printProfile, bedWidth: bed.width, bedDepth: bed.depth }}));
+                                    }}
+                                    className="w-full text-sm font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5"
+                                 >
+                                    <option value={-1} disabled>Custom</option>
+                                    {BED_PRESETS.map((b, i) => <option key={b.label} value={i}>{b.label}</option>)}
+                                 </select>
+                             </label>
+                             {([['Bed W mm', 'bedWidth'], ['Bed D mm', 'bedDepth']] as const).map(([label, key]) => (
+                                 <label key={key} className="flex flex-col gap-1">
+                                     <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">{label}</span>
+                                     <input
+                                        type="number" min="50" max="1000" step="1"
+                                        key={`${key}-${settings.printProfile[key]}`}
+                                        defaultValue={settings.printProfile[key]}
+                                        onBlur={(e) => {
+                                            const value = parseFloat(e.target.value);
+                                            if (value >= 50 && value <= 1000) setSettings(s => ({...s, printProfile: { ...s.printProfile, [key]: value }}));
+                                        }}
+                                        className="w-full text-sm font-mono font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5"
+                                     />
+                                 </label>
+                             ))}
+                         </div>
+                         <p className="text-[10px] text-slate-400 mt-2 font-medium">Match your slicer. Every thickness is rounded to whole layers so color changes land exactly on layer boundaries. Material, filament and purge feed the filament estimate; the bed centers the export and sizes batch plates.</p>
+                    </div>
+
+                    {/* Printability */}
+                    <div>
+                         <div className="flex justify-between mb-2">
+                             <label className="text-sm font-bold text-slate-700">Min Island Area</label>
+                             <span className="text-xs font-bold text-emerald-600">{settings.minIslandArea} mm²</span>
+                         </div>
+                         <input
+                            type="range" min="0" max="5" step="0.25"
+                            value={settings.minIslandArea}
+                            onChange={(e) => setSettings(s => ({...s, minIslandArea: parseFloat(e.target.value)}))}
                             className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
                          />
-                         <p className="text-[10px] text-slate-400 mt-2 font-medium">Higher smoothness merges small pixels into larger, cleaner blocks of color.</p>
+                         <label className="flex items-center gap-2 mt-3 text-xs font-bold text-slate-600 cursor-pointer">
+                             <input
+                                type="checkbox"
+                                checked={settings.fixPrintability}
+                                onChange={(e) => setSettings(s => ({...s, fixPrintability: e.target.checked}))}
+                                className="accent-emerald-600"
+                             />
+                             Auto-fix before export
+                         </label>
+                         <p className="text-[10px] text-slate-400 mt-2 font-medium">Lines narrower than the {settings.printProfile.nozzleDiameter}mm nozzle and color specks below the minimum area don't print cleanly. Auto-fix absorbs them into the surrounding colors, and the preview shows the result.</p>
                     </div>
 
                     {/* Mode Toggle */}
@@ -383,20 +1438,71 @@ export default function App() {
                         <span className="text-sm font-bold text-slate-600">3D Texture</span>
                         <div className="flex bg-slate-200 p-1 rounded-lg">
                             <button 
-                                onClick={() => setSettings(s => ({...s, isTactile: false}))}
-                                className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${!settings.isTactile ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                                onClick={() => setSettings(s => ({...s, isTactile: false, stackMode: 'palette'}))}
+                                className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${settings.stackMode === 'palette' && !settings.isTactile ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
                             >
                                 Flat
                             </button>
                             <button 
-                                onClick={() => setSettings(s => ({...s, isTactile: true}))}
-                                className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${settings.isTactile ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                                onClick={() => setSettings(s => ({...s, isTactile: true, stackMode: 'palette'}))}
+                                className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${settings.stackMode === 'palette' && settings.isTactile ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
                             >
                                 Tactile
                             </button>
+                            <button 
+                                onClick={() => setSettings(s => ({...s, stackMode: 'luminance'}))}
+                                className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${settings.stackMode === 'luminance' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                            >
+                                Shaded
+                            </button>
                         </div>
                     </div>
 
+                    {/* Edge Mode */}
+                    <div>
+                        <div className="flex items-center justify-between bg-slate-50 p-3 rounded-xl border border-slate-100">
+                            <span className="text-sm font-bold text-slate-600">Edges</span>
+                            <div className="flex bg-slate-200 p-1 rounded-lg">
+                                <button 
+                                    onClick={() => setSettings(s => ({...s, meshMode: 'pixel'}))}
+                                    className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${settings.meshMode === 'pixel' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                                >
+                                    Pixel
+                                </button>
+                                <button 
+                                    onClick={() => setSettings(s => ({...s, meshMode: 'contour'}))}
+                                    className={`px-4 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${settings.meshMode === 'contour' ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+                                >
+                                    Smooth
+                                </button>
+                            </div>
+                        </div>
+                        {settings.meshMode === 'contour' && (
+                            <div className="space-y-3 mt-4">
+                                <div className="flex items-center gap-4">
+                                    <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Simplify</div>
+                                    <input 
+                                        type="range" min="0.02" max="0.3" step="0.02"
+                                        value={settings.contourTolerance}
+                                        onChange={(e) => setSettings(s => ({...s, contourTolerance: parseFloat(e.target.value)}))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                    />
+                                    <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.contourTolerance.toFixed(2)}</span>
+                                </div>
+                                <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.contourSmoothing}
+                                        onChange={(e) => setSettings(s => ({...s, contourSmoothing: e.target.checked}))}
+                                        className="accent-emerald-600"
+                                    />
+                                    Round corners (Bézier)
+                                </label>
+                                <p className="text-[10px] text-slate-400 font-medium">Color edges are traced into vector outlines instead of pixel staircases. Simplify is the max deviation in mm.</p>
+                            </div>
+                        )}
+                    </div>
+
                     {/* Base Height */}
                     <div>
                          <div className="flex justify-between mb-2">
@@ -404,24 +1510,44 @@ export default function App() {
                              <span className="text-xs font-bold bg-slate-100 px-2 py-1 rounded-lg text-slate-600">{settings.baseHeight}mm</span>
                          </div>
                          <input 
-                            type="range" min="0.2" max="2.0" step="0.2"
+                            type="range" min={settings.printProfile.firstLayerHeight} max="2.0" step={settings.printProfile.layerHeight}
                             value={settings.baseHeight}
                             onChange={(e) => setSettings(s => ({...s, baseHeight: parseFloat(e.target.value)}))}
                             className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
                          />
                     </div>
 
+                    {/* Transmission Distances */}
+                    {settings.stackMode === 'luminance' && (
+                        <div className="space-y-4 pt-6 border-t border-slate-100">
+                            <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">Transmission Distance (mm)</p>
+                            {settings.transmissionDistances.slice(0, settings.colorCount).map((td, i) => (
+                                <div key={i} className="flex items-center gap-4">
+                                    <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Slot {i + 1}</div>
+                                    <input 
+                                        type="range" min="0.2" max="8" step="0.1"
+                                        value={td}
+                                        onChange={(e) => setSettings(s => ({ ...s, transmissionDistances: s.transmissionDistances.map((d, j) => (j === i ? parseFloat(e.target.value) : d)) }))}
+                                        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                    />
+                                    <span className="w-12 text-xs font-bold text-right text-slate-500">{td}</span>
+                                </div>
+                            ))}
+                            <p className="text-[10px] text-slate-400 font-medium">Filaments are stacked dark to light and the image's brightness sets the height of every pixel. TD is how thick a filament must be to hide what is below; assigning a library filament fills it in. Frame, text and the back side are not used in this mode.</p>
+                        </div>
+                    )}
+
                     {/* Layer Heights */}
-                    {settings.isTactile && (
+                    {settings.isTactile && settings.stackMode === 'palette' && (
                         <div className="space-y-4 pt-6 border-t border-slate-100">
                             <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">Tactile Depths (mm)</p>
-                            {settings.layerHeights.map((h, i) => (
+                            {settings.layerHeights.slice(0, settings.colorCount).map((h, i) => (
                                 <div key={i} className="flex items-center gap-4">
                                     <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">
                                         {i === 0 ? "Slot 1 (Min)" : `Slot ${i+1}`}
                                     </div>
                                     <input 
-                                        type="range" min="0.2" max="3.0" step="0.2"
+                                        type="range" min={settings.printProfile.layerHeight} max="3.0" step={settings.printProfile.layerHeight}
                                         value={h}
                                         onChange={(e) => updateLayerHeight(i, parseFloat(e.target.value))}
                                         className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
@@ -431,9 +1557,108 @@ export default function App() {
                             ))}
                         </div>
                     )}
+
+                    {/* Relief */}
+                    {settings.stackMode === 'palette' && (
+                        <div className="pt-6 border-t border-slate-100">
+                             <div className="flex items-center justify-between">
+                                 <span className="text-sm font-bold text-slate-700">Relief</span>
+                                 <select
+                                    value={settings.reliefMode}
+                                    onChange={(e) => setSettings(s => ({...s, reliefMode: e.target.value as ReliefMode}))}
+                                    className="text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                                 >
+                                    {RELIEF_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                                 </select>
+                             </div>
+                             {settings.reliefMode !== 'off' && (
+                                 <div className="space-y-3 mt-4">
+                                     <div className="flex items-center gap-4">
+                                         <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Color</div>
+                                         <select
+                                            value={Math.min(settings.reliefSlot, settings.colorCount - 1)}
+                                            onChange={(e) => setSettings(s => ({...s, reliefSlot: parseInt(e.target.value)}))}
+                                            className="flex-1 text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                                         >
+                                            {Array.from({ length: settings.colorCount }, (_, i) => (
+                                                <option key={i} value={i}>Slot {i + 1}</option>
+                                            ))}
+                                         </select>
+                                     </div>
+                                     <div className="flex items-center gap-4">
+                                         <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Min</div>
+                                         <input 
+                                            type="range" min="0.2" max="3" step="0.1"
+                                            value={settings.reliefMinThickness}
+                                            onChange={(e) => setSettings(s => ({...s, reliefMinThickness: parseFloat(e.target.value)}))}
+                                            className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                         />
+                                         <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.reliefMinThickness}mm</span>
+                                     </div>
+                                     <div className="flex items-center gap-4">
+                                         <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Max</div>
+                                         <input 
+                                            type="range" min="0.4" max="6" step="0.1"
+                                            value={settings.reliefMaxThickness}
+                                            onChange={(e) => setSettings(s => ({...s, reliefMaxThickness: parseFloat(e.target.value)}))}
+                                            className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                         />
+                                         <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.reliefMaxThickness}mm</span>
+                                     </div>
+                                     <div className="flex items-center gap-4">
+                                         <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Gamma</div>
+                                         <input 
+                                            type="range" min="0.3" max="3" step="0.1"
+                                            value={settings.reliefGamma}
+                                            onChange={(e) => setSettings(s => ({...s, reliefGamma: parseFloat(e.target.value)}))}
+                                            className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                         />
+                                         <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.reliefGamma}</span>
+                                     </div>
+                                     <div className="flex items-center gap-4">
+                                         <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Blur</div>
+                                         <input 
+                                            type="range" min="0" max="2" step="0.1"
+                                            value={settings.reliefBlur}
+                                            onChange={(e) => setSettings(s => ({...s, reliefBlur: parseFloat(e.target.value)}))}
+                                            className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+                                         />
+                                         <span className="w-12 text-xs font-bold text-right text-slate-500">{settings.reliefBlur}mm</span>
+                                     </div>
+                                     <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                                        <input
+                                           type="checkbox"
+                                           checked={settings.reliefInvert}
+                                           onChange={(e) => setSettings(s => ({...s, reliefInvert: e.target.checked}))}
+                                           className="accent-emerald-600"
+                                        />
+                                        Invert (light areas thickest)
+                                     </label>
+                                     <p className="text-[10px] text-slate-400 font-medium">
+                                        {settings.reliefMode === 'relief'
+                                            ? 'The image becomes a lithophane: a single part whose thickness follows the grayscale, dark areas thickest so it reads when held up to a light.'
+                                            : 'The relief is printed on top of the color layers, which are kept one layer thick (frame included) so it rests flat on them.'}
+                                     </p>
+                                 </div>
+                             )}
+                        </div>
+                    )}
+
+                    {printSettings.adjustments.length > 0 && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-xl p-3 space-y-1">
+                            <p className="text-xs font-bold text-amber-700 flex items-center gap-1"><AlertTriangle size={14} /> Rounded to whole layers</p>
+                            {printSettings.adjustments.map(a => (
+                                <p key={a.label} className="text-[11px] text-amber-700 font-medium">{a.label}: {a.requested}mm → {a.actual}mm</p>
+                            ))}
+                        </div>
+                    )}
                 </div>
              </div>
 
+             <FilamentLibrary filaments={filaments} onChange={setFilaments} />
+
+             <BatchPanel state={batchState} skipped={batchSkipped} warnings={batchWarnings} onRun={handleRunBatch} onCancel={() => { batchAbortRef.current?.abort(); batchRunnerRef.current?.cancel(); }} />
+
              {/* Action Buttons */}
              <div className="bg-white p-6 rounded-2xl shadow-xl border border-slate-200">
                 <div className="flex flex-col gap-4">
@@ -450,7 +1675,7 @@ export default function App() {
                             </>
                         ) : (
                             <>
-                                <Loader2 className="animate-spin" size={22} /> {processing.message}
+                                <Loader2 className="animate-spin" size={22} /> {processing.message}{processing.progress !== undefined && ` ${Math.round(processing.progress * 100)}%`}
                             </>
                         )}
                     </button>
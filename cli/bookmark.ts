@@ -0,0 +1,265 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { BookmarkSettings, RGB } from '../types';
+import { DEFAULT_SETTINGS, DITHER_MODES, FILAMENT_MATERIALS, FRAME_PATTERNS, MAX_COLORS, MAX_SIZE_MM, MIN_COLORS, MIN_SIZE_MM, OUTLINE_SHAPES, RELIEF_MODES } from '../constants';
+import { getCanvasSize, getCenterCrop, getPreviewPixels, getReliefPreviewPixels, resamplePixels } from '../utils/imageHelper';
+import { hexToRgb, rgbToHex } from '../utils/colorHelper';
+import { getPrintSettings } from '../utils/layerHelper';
+import { ProcessedImage, processImageData } from '../utils/pipeline';
+import { generate3MF, generateSTLZip } from '../utils/stlHelper';
+import { validate3MF } from '../utils/threeMFValidator';
+import { decodePNG, encodePNGDataURL } from './png';
+
+const USAGE = `Usage: npm run cli -- <image.png> -o <out.3mf|out.zip> [options]
+
+Converts an image into a bookmark without a browser: a Bambu Studio 3MF project, or a
+ZIP of STLs (one per color) when the output ends in .zip.
+
+Options:
+  -o, --output <file>      .3mf project or .zip of STLs (required)
+  -s, --settings <file>    JSON with any BookmarkSettings, over the app's defaults
+      --set <key=value>    one setting, e.g. --set meshMode=contour or
+                           --set printProfile.layerHeight=0.16 (repeatable, wins over --settings)
+  -w, --width <mm>         bookmark width
+  -H, --height <mm>        bookmark height
+  -c, --colors <n>         filament slots (${MIN_COLORS}-${MAX_COLORS})
+      --seed <n>           quantization seed
+      --lock <hex,...>     pin slots to exact colors, empty entries stay free (e.g. "#FFFFFF,,#000000")
+      --filaments <names>  comma-separated filament names per slot, for the 3MF
+      --fit <mode>         cover (center crop, default) or stretch
+      --validate           check the 3MF against the spec and fail on problems
+  -h, --help               show this help`;
+
+/**
+ * Turns a --set value into JSON when it parses as such (numbers, booleans, arrays) and
+ * keeps it as a string otherwise.
+ */
+const parseValue = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Values the app's selects offer for each enum setting
+const CHOICES: { [key: string]: readonly string[] } = {
+  quantizeMode: ['rgb', 'lab'],
+  ditherMode: DITHER_MODES.map(m => m.value),
+  meshMode: ['pixel', 'contour'],
+  outlineShape: OUTLINE_SHAPES.map(s => s.value),
+  holePosition: ['top', 'bottom'],
+  framePattern: FRAME_PATTERNS.map(p => p.value),
+  stackMode: ['palette', 'luminance'],
+  reliefMode: RELIEF_MODES.map(m => m.value),
+  'printProfile.filamentMaterial': FILAMENT_MATERIALS.map(m => m.label),
+};
+
+// Limits of the numeric settings as the app's controls allow them, per entry for lists
+const RANGES: { [key: string]: [number, number] } = {
+  baseHeight: [0.2, 2],
+  layerHeights: [0, 3],
+  colorCount: [MIN_COLORS, MAX_COLORS],
+  widthMm: [MIN_SIZE_MM, MAX_SIZE_MM],
+  heightMm: [MIN_SIZE_MM, MAX_SIZE_MM],
+  smoothing: [0, 5],
+  seed: [0, 0xffffffff],
+  ditherStrength: [0, 1],
+  ditherDotScale: [1, 4],
+  contourTolerance: [0.02, 0.3],
+  cornerRadius: [0, 10],
+  holeOffset: [3, 30],
+  holeDiameter: [2, 10],
+  holeRingWidth: [0, 4],
+  frameWidth: [0.5, 8],
+  frameInset: [0, 8],
+  frameHeight: [0.2, 3],
+  frameSlot: [0, MAX_COLORS - 1],
+  backDepth: [0, 1],
+  transmissionDistances: [0.2, 8],
+  reliefMinThickness: [0.2, 3],
+  reliefMaxThickness: [0.4, 6],
+  reliefGamma: [0.3, 3],
+  reliefBlur: [0, 2],
+  reliefSlot: [0, MAX_COLORS - 1],
+  minIslandArea: [0, 5],
+  'printProfile.firstLayerHeight': [0.04, 0.4],
+  'printProfile.layerHeight': [0.04, 0.4],
+  'printProfile.nozzleDiameter': [0.1, 1.2],
+  'printProfile.filamentDiameter': [1, 3],
+  'printProfile.filamentDensity': [0.5, 3],
+  'printProfile.purgeVolume': [0, 2000],
+  'printProfile.bedWidth': [50, 1000],
+  'printProfile.bedDepth': [50, 1000],
+};
+
+const INTEGERS = ['colorCount', 'smoothing', 'seed', 'frameSlot', 'reliefSlot'];
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkRange = (label: string, value: number, min: number, max: number) => {
+  if (!(value >= min && value <= max)) throw new Error(`${label} must be between ${min} and ${max}, got ${value}`);
+};
+
+// Throws unless `value` has the type of the default it replaces and is one the app allows
+const checkSetting = (key: string, value: unknown, fallback: unknown) => {
+  const choices = CHOICES[key];
+  if (choices) {
+    if (typeof value !== 'string' || !choices.includes(value)) throw new Error(`${key} must be one of ${choices.join(', ')}, got ${JSON.stringify(value)}`);
+    return;
+  }
+  if (Array.isArray(fallback)) {
+    if (!Array.isArray(value) || value.length !== fallback.length || !value.every(n => typeof n === 'number')) {
+      throw new Error(`${key} must be a list of ${fallback.length} numbers, got ${JSON.stringify(value)}`);
+    }
+  } else if (typeof value !== typeof fallback) throw new Error(`${key} must be a ${typeof fallback}, got ${JSON.stringify(value)}`);
+  const range = RANGES[key];
+  if (range) for (const n of Array.isArray(value) ? value : [value]) checkRange(key, n, range[0], range[1]);
+  if (INTEGERS.includes(key) && !Number.isInteger(value)) throw new Error(`${key} must be a whole number, got ${value}`);
+};
+
+/**
+ * Applies `overrides` to the defaults, one level deep for the print profile, refusing keys
+ * the app does not know and values it would not offer, so a typo cannot silently fall back
+ * to a default or reach the pipeline.
+ */
+const mergeSettings = (base: BookmarkSettings, overrides: unknown): BookmarkSettings => {
+  if (!isObject(overrides)) throw new Error('Settings must be a JSON object');
+  const settings: { [key: string]: unknown } = { ...base, printProfile: { ...base.printProfile } };
+  const defaults: { [key: string]: unknown } = { ...base };
+  const profileDefaults: { [key: string]: unknown } = { ...base.printProfile };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in defaults)) throw new Error(`Unknown setting "${key}"`);
+    if (key === 'printProfile') {
+      if (!isObject(value)) throw new Error(`printProfile must be an object, e.g. {"layerHeight":0.16}, got ${JSON.stringify(value)}`);
+      for (const [field, fieldValue] of Object.entries(value)) {
+        if (!(field in profileDefaults)) throw new Error(`Unknown setting "printProfile.${field}"`);
+        checkSetting(`printProfile.${field}`, fieldValue, profileDefaults[field]);
+      }
+      settings.printProfile = { ...base.printProfile, ...value };
+    } else {
+      checkSetting(key, value, defaults[key]);
+      settings[key] = value;
+    }
+  }
+  return settings as unknown as BookmarkSettings;
+};
+
+// key=value pairs with dotted keys into one nested override object
+const parseSetFlags = (pairs: string[]) => {
+  const overrides: { [key: string]: unknown } = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf('=');
+    if (eq < 1) throw new Error(`--set expects key=value, got "${pair}"`);
+    const [key, field, ...rest] = pair.slice(0, eq).split('.');
+    if (rest.length) throw new Error(`--set only nests one level deep, got "${pair.slice(0, eq)}"`);
+    const value = parseValue(pair.slice(eq + 1));
+    if (field) {
+      const nested = overrides[key];
+      overrides[key] = { ...(isObject(nested) ? nested : {}), [field]: value };
+    } else overrides[key] = value;
+  }
+  return overrides;
+};
+
+const parseNumber = (label: string, value: string) => {
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new Error(`${label} must be a number, got "${value}"`);
+  return n;
+};
+
+// The 2D preview the editor would show, as the 3MF thumbnail
+const getThumbnail = (data: ProcessedImage, settings: BookmarkSettings) => {
+  const pixels = data.stack
+    ? getPreviewPixels(data.stack.levels, data.stack.colors)
+    : data.relief && settings.reliefMode === 'relief'
+      ? getReliefPreviewPixels(data.relief, settings.reliefMinThickness, settings.reliefMaxThickness)
+      : getPreviewPixels(data.indices, data.palette);
+  return encodePNGDataURL(pixels, data.width, data.height);
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      settings: { type: 'string', short: 's' },
+      set: { type: 'string', multiple: true },
+      width: { type: 'string', short: 'w' },
+      height: { type: 'string', short: 'H' },
+      colors: { type: 'string', short: 'c' },
+      seed: { type: 'string' },
+      lock: { type: 'string' },
+      filaments: { type: 'string' },
+      fit: { type: 'string' },
+      validate: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const [input] = positionals;
+  const output = values.output;
+  if (!input || !output || positionals.length > 1) throw new Error(`Expected one input image and --output\n\n${USAGE}`);
+  const format = output.toLowerCase().endsWith('.3mf') ? '3mf' : output.toLowerCase().endsWith('.zip') ? 'zip' : null;
+  if (!format) throw new Error('--output must end in .3mf or .zip');
+  const fit = values.fit ?? 'cover';
+  if (fit !== 'cover' && fit !== 'stretch') throw new Error('--fit must be cover or stretch');
+
+  let settings = DEFAULT_SETTINGS;
+  if (values.settings) settings = mergeSettings(settings, JSON.parse(await readFile(values.settings, 'utf8')));
+  settings = mergeSettings(settings, parseSetFlags(values.set ?? []));
+  if (values.width) settings = { ...settings, widthMm: parseNumber('--width', values.width) };
+  if (values.height) settings = { ...settings, heightMm: parseNumber('--height', values.height) };
+  if (values.colors) settings = { ...settings, colorCount: parseNumber('--colors', values.colors) };
+  if (values.seed) settings = { ...settings, seed: parseNumber('--seed', values.seed) >>> 0 };
+  checkRange('Width (mm)', settings.widthMm, MIN_SIZE_MM, MAX_SIZE_MM);
+  checkRange('Height (mm)', settings.heightMm, MIN_SIZE_MM, MAX_SIZE_MM);
+  checkRange('Colors', settings.colorCount, MIN_COLORS, MAX_COLORS);
+  if (!Number.isInteger(settings.colorCount)) throw new Error('Colors must be a whole number');
+  checkRange('frameSlot', settings.frameSlot, 0, settings.colorCount - 1);
+  checkRange('reliefSlot', settings.reliefSlot, 0, settings.colorCount - 1);
+
+  const lockedColors: (RGB | null)[] = new Array(MAX_COLORS).fill(null);
+  (values.lock ?? '').split(',').slice(0, MAX_COLORS).forEach((hex, i) => {
+    if (!hex.trim()) return;
+    const color = hexToRgb(hex.trim());
+    if (!color) throw new Error(`--lock: "${hex}" is not a hex color`);
+    lockedColors[i] = color;
+  });
+  const names = (values.filaments ?? '').split(',');
+  const filamentNames = Array.from({ length: settings.colorCount }, (_, i) => names[i]?.trim() || null);
+
+  const image = decodePNG(await readFile(input));
+  const { width, height } = getCanvasSize(settings.widthMm, settings.heightMm);
+  const crop = fit === 'cover'
+    ? getCenterCrop(image.width, image.height, settings.widthMm, settings.heightMm)
+    : { x: 0, y: 0, width: image.width, height: image.height };
+  const pixels = resamplePixels(image.data, image.width, image.height, crop, width, height);
+
+  const data = processImageData(pixels, width, height, settings, lockedColors, {}, message => console.error(message));
+  const print = getPrintSettings(settings, data.backIndices !== null);
+  for (const a of print.adjustments) console.error(`${a.label}: ${a.requested} mm rounded to ${a.actual} mm`);
+  if (data.printability.thinPixels || data.printability.islandCount) {
+    console.error(`Printability: ${data.printability.thinPixels} px thinner than the nozzle, ${data.printability.islandCount} islands below ${settings.minIslandArea} mm²`);
+  }
+
+  console.error(format === '3mf' ? 'Generating 3MF...' : 'Generating STLs...');
+  const blob = format === '3mf'
+    ? await generate3MF(data.indices, print.settings, data.palette, getThumbnail(data, settings), filamentNames, data.backIndices, data.stack, data.relief)
+    : await generateSTLZip(data.indices, print.settings, data.palette, data.backIndices, data.stack, data.relief);
+  if (values.validate && format === '3mf') {
+    const problems = await validate3MF(blob);
+    if (problems.length) throw new Error(`3MF failed validation:\n  ${problems.join('\n  ')}`);
+  }
+  await writeFile(output, new Uint8Array(await blob.arrayBuffer()));
+  console.log(`${output}: ${data.palette.map(c => rgbToHex(c)).join(' ')}, ${(blob.size / 1024).toFixed(0)} KB`);
+};
+
+main().catch(err => {
+  console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+});
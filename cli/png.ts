@@ -0,0 +1,141 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+
+// The only image format Node can decode without a canvas: PNG over the built-in zlib
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel by color type: gray, RGB, palette, gray + alpha, RGBA
+const CHANNELS: { [colorType: number]: number } = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+/**
+ * Decodes a non-interlaced PNG of any color type and bit depth to 8-bit RGBA.
+ */
+export const decodePNG = (file: Uint8Array): { data: Uint8ClampedArray; width: number; height: number } => {
+  if (!SIGNATURE.every((byte, i) => file[i] === byte)) throw new Error('Not a PNG image (convert other formats to PNG first)');
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Uint8Array | null = null, transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+  for (let offset = 8; offset + 8 <= file.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...file.subarray(offset + 4, offset + 8));
+    const chunk = file.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      [bitDepth, colorType] = [chunk[8], chunk[9]];
+      interlace = chunk[12];
+    } else if (type === 'PLTE') palette = chunk;
+    else if (type === 'tRNS') transparency = chunk;
+    else if (type === 'IDAT') idat.push(chunk);
+    else if (type === 'IEND') break;
+    offset += length + 12;
+  }
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels) throw new Error('Unsupported or damaged PNG');
+  if (interlace) throw new Error('Interlaced PNGs are not supported');
+  if (colorType === 3 && !palette) throw new Error('PNG palette missing');
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3); // filter distance in bytes
+  const rows = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride, up = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? rows[row + x - bpp] : 0;
+      const b = y > 0 ? rows[up + x] : 0;
+      const c = x >= bpp && y > 0 ? rows[up + x - bpp] : 0;
+      const predictor = filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : filter === 4 ? paeth(a, b, c) : 0;
+      rows[row + x] = (line[x] + predictor) & 0xff;
+    }
+  }
+
+  // Sample k of a row, scaled to 8 bits unless it is a palette index
+  const max = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (row: number, k: number) => {
+    if (bitDepth === 16) return rows[row + k * 2];
+    if (bitDepth === 8) return rows[row + k];
+    const bit = k * bitDepth;
+    const value = (rows[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & max;
+    return colorType === 3 ? value : Math.round((value * 255) / max);
+  };
+  // tRNS for gray and RGB holds one 16-bit color that is fully transparent
+  const keyed = (k: number) => transparency && colorType !== 3 ? Math.round(((transparency[k * 2] << 8 | transparency[k * 2 + 1]) * 255) / ((1 << bitDepth) - 1)) : -1;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const s = x * channels;
+      let r: number, g: number, b: number, a = 255;
+      if (colorType === 3) {
+        const index = sample(row, s);
+        [r, g, b] = [palette![index * 3], palette![index * 3 + 1], palette![index * 3 + 2]];
+        if (transparency && index < transparency.length) a = transparency[index];
+      } else if (colorType === 0 || colorType === 4) {
+        r = g = b = sample(row, s);
+        if (colorType === 4) a = sample(row, s + 1);
+        else if (r === keyed(0)) a = 0;
+      } else {
+        [r, g, b] = [sample(row, s), sample(row, s + 1), sample(row, s + 2)];
+        if (colorType === 6) a = sample(row, s + 3);
+        else if (r === keyed(0) && g === keyed(1) && b === keyed(2)) a = 0;
+      }
+      data[o] = r; data[o + 1] = g; data[o + 2] = b; data[o + 3] = a;
+    }
+  }
+  return { data, width, height };
+};
+
+const writeChunk = (type: string, body: Uint8Array) => {
+  const chunk = new Uint8Array(body.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length);
+  chunk.set([...type].map(ch => ch.charCodeAt(0)), 4);
+  chunk.set(body, 8);
+  view.setUint32(body.length + 8, crc32(chunk.subarray(4, body.length + 8)));
+  return chunk;
+};
+
+/**
+ * Encodes 8-bit RGBA as a PNG, as a data URL like canvas.toDataURL would give.
+ */
+export const encodePNGDataURL = (data: Uint8ClampedArray, width: number, height: number) => {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8);
+  const raw = new Uint8Array((width * 4 + 1) * height);
+  for (let y = 0; y < height; y++) raw.set(data.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1);
+  const png = Buffer.concat([
+    Uint8Array.from(SIGNATURE),
+    writeChunk('IHDR', header),
+    writeChunk('IDAT', deflateSync(raw)),
+    writeChunk('IEND', new Uint8Array(0)),
+  ]);
+  return `data:image/png;base64,${png.toString('base64')}`;
+};
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Loader2, Package, X } from 'lucide-react';
+import { ProcessingState } from '../types';
+import { BATCH_NAME_TOKEN, MAX_COLORS, PLATE_SPACING_MM } from '../constants';
+import { BatchItem, getBatchItems } from '../utils/batchHelper';
+
+interface BatchPanelProps {
+  state: ProcessingState;
+  skipped: string[]; // from the last run
+  warnings: string[];
+  onRun: (items: BatchItem[], pack: boolean, plateSpacing: number) => void;
+  onCancel: () => void;
+}
+
+export default function BatchPanel({ state, skipped, warnings, onRun, onCancel }: BatchPanelProps) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [pack, setPack] = useState(false);
+  const [spacing, setSpacing] = useState(PLATE_SPACING_MM);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const running = state.status !== 'idle' && state.status !== 'done' && state.status !== 'error';
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (inputRef.current) inputRef.current.value = '';
+    if (files.length === 0) return;
+    const result = await getBatchItems(files);
+    setItems(result.items);
+    setMissing(result.missing);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-4 border-b border-slate-100 pb-4">
+        <Package className="text-emerald-600" size={20} />
+        <h2 className="font-bold text-lg text-slate-800">Batch</h2>
+      </div>
+      <p className="text-[11px] text-slate-500 font-medium mb-4 leading-relaxed">
+        Select many images, optionally with a CSV of <span className="font-mono">image,name</span> rows. Every design uses the current settings, locked colors and text, center-cropped to size; <span className="font-mono">{BATCH_NAME_TOKEN}</span> in a text block is replaced by the name (otherwise the name gets its own block).
+      </p>
+      <input type="file" ref={inputRef} onChange={handleFiles} accept="image/*,.csv" multiple className="hidden" />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={running}
+        className="w-full py-2.5 rounded-xl text-xs font-bold text-slate-600 border border-slate-200 hover:bg-slate-50 flex items-center justify-center gap-2 disabled:opacity-40"
+      >
+        <FolderOpen size={16} /> {items.length ? `${items.length} designs selected` : 'Choose Images / CSV'}
+      </button>
+      {missing.length > 0 && (
+        <p className="text-[11px] text-amber-700 font-medium mt-2">Not among the selected images: {missing.join(', ')}</p>
+      )}
+      <div className="flex bg-slate-200 p-1 rounded-lg mt-4">
+        {([[false, 'One 3MF per design'], [true, 'Packed onto plates']] as const).map(([value, label]) => (
+          <button
+            key={label}
+            onClick={() => setPack(value)}
+            className={`flex-1 py-1.5 text-[11px] font-black uppercase tracking-wider rounded-md transition-all ${pack === value ? 'bg-white shadow-sm text-emerald-700' : 'text-slate-500'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {pack && (
+        <label className="flex items-center justify-between gap-2 mt-3 text-xs font-bold text-slate-600">
+          Spacing (mm)
+          <input
+            type="number" min="0" max="50" step="1"
+            value={spacing}
+            onChange={(e) => setSpacing(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-20 text-sm font-mono font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5"
+          />
+        </label>
+      )}
+      {pack && <p className="text-[11px] text-slate-500 font-medium mt-2 leading-relaxed">All designs share one list of up to {MAX_COLORS} filaments and fill as few plates of the print profile's bed as they fit. Lock the palette colors so every design uses the same filaments; other colors print as the nearest shared one.</p>}
+      {running ? (
+        <div className="flex items-center gap-2 mt-4">
+          <div className="flex-1 text-xs font-bold text-slate-600 flex items-center gap-2">
+            <Loader2 size={14} className="animate-spin" /> {state.message}
+          </div>
+          <button onClick={onCancel} className="text-xs font-bold text-slate-500 hover:text-red-600 flex items-center gap-1"><X size={14} /> Cancel</button>
+        </div>
+      ) : (
+        <button
+          onClick={() => onRun(items, pack, spacing)}
+          disabled={items.length === 0}
+          className="w-full mt-4 py-3 rounded-xl font-black text-white bg-emerald-600 hover:bg-emerald-700 uppercase tracking-widest text-xs disabled:bg-slate-200 disabled:text-slate-400"
+        >
+          Generate ZIP
+        </button>
+      )}
+      {state.status === 'error' && <p className="text-red-500 text-[11px] font-bold mt-2">{state.message}</p>}
+      {state.status === 'done' && warnings.map(w => <p key={w} className="text-[11px] text-amber-700 font-medium mt-2">{w}</p>)}
+      {state.status === 'done' && skipped.length > 0 && (
+        <p className="text-[11px] text-amber-700 font-medium mt-2">Skipped {skipped.length}: {skipped.join('; ')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { RGB } from '../types';
+import { MeshBuffers } from '../utils/meshHelper';
+import { PreviewRenderer, createPreviewRenderer } from '../utils/previewRenderer';
+
+interface BookmarkViewerProps {
+  meshes: MeshBuffers[] | null;
+  palette: RGB[];
+  heightMm: number;
+  width: number; // CSS px
+  height: number; // CSS px
+  loading: boolean;
+}
+
+// Layer heights are tiny next to the footprint; this makes tactile steps readable
+const HEIGHT_EXAGGERATION = 4;
+const DEFAULT_ORBIT = { yaw: 0, pitch: 0.7, zoom: 1 };
+
+export default function BookmarkViewer({ meshes, palette, heightMm, width, height, loading }: BookmarkViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<PreviewRenderer | null>(null);
+  const orbitRef = useRef({ ...DEFAULT_ORBIT });
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef(0);
+
+  const [exaggerate, setExaggerate] = useState(false);
+  const [cut, setCut] = useState(1); // fraction of the length kept
+  const [forceSoftware, setForceSoftware] = useState(false);
+  const [rendererKind, setRendererKind] = useState<PreviewRenderer['kind'] | null>(null);
+
+  const draw = useCallback(() => {
+    cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => {
+      rendererRef.current?.render({
+        ...orbitRef.current,
+        zScale: exaggerate ? HEIGHT_EXAGGERATION : 1,
+        cutY: cut >= 1 ? Infinity : cut * heightMm,
+      });
+    });
+  }, [exaggerate, cut, heightMm]);
+
+  // A canvas keeps whichever context it got first, so switching renderer remounts it (see key)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const renderer = createPreviewRenderer(canvas, forceSoftware);
+    rendererRef.current = renderer;
+    setRendererKind(renderer.kind);
+    return () => {
+      cancelAnimationFrame(frameRef.current);
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, [forceSoftware]);
+
+  useEffect(() => {
+    rendererRef.current?.setScene(meshes ?? [], palette);
+    draw();
+  }, [meshes, palette, forceSoftware]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const orbit = orbitRef.current;
+      orbit.zoom = Math.min(8, Math.max(0.5, orbit.zoom * Math.exp(-e.deltaY * 0.001)));
+      draw();
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [draw, forceSoftware]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    const orbit = orbitRef.current;
+    orbit.yaw += (e.clientX - dragRef.current.x) * 0.01;
+    orbit.pitch = Math.min(Math.PI, Math.max(-Math.PI / 2, orbit.pitch + (e.clientY - dragRef.current.y) * 0.01));
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    draw();
+  };
+
+  const handleReset = () => {
+    orbitRef.current = { ...DEFAULT_ORBIT };
+    draw();
+  };
+
+  const pixelRatio = typeof window !== 'undefined' ? Math.min(2, window.devicePixelRatio || 1) : 1;
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="relative shadow-2xl bg-slate-900 p-2 rounded-2xl overflow-hidden border-4 border-slate-800">
+        <canvas
+          key={forceSoftware ? 'software' : 'webgl'}
+          ref={canvasRef}
+          width={Math.round(width * pixelRatio)}
+          height={Math.round(height * pixelRatio)}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          onDoubleClick={handleReset}
+          className="block cursor-grab active:cursor-grabbing touch-none"
+          style={{ width, height }}
+        />
+        {loading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-slate-900/60 text-white text-xs font-bold gap-2">
+            <Loader2 size={16} className="animate-spin" /> Building mesh...
+          </div>
+        )}
+      </div>
+
+      <div className="w-full space-y-3">
+        <div className="flex items-center gap-4">
+          <div className="w-20 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Cross-section</div>
+          <input
+            type="range" min="0.02" max="1" step="0.01"
+            value={cut}
+            onChange={(e) => setCut(parseFloat(e.target.value))}
+            className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+          />
+          <span className="w-12 text-xs font-bold text-right text-slate-500">{cut >= 1 ? 'Off' : `${(cut * heightMm).toFixed(0)}mm`}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+            <input type="checkbox" checked={exaggerate} onChange={(e) => setExaggerate(e.target.checked)} className="accent-emerald-600" />
+            Exaggerate heights ×{HEIGHT_EXAGGERATION}
+          </label>
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+            <input type="checkbox" checked={forceSoftware} onChange={(e) => setForceSoftware(e.target.checked)} className="accent-emerald-600" />
+            CPU renderer
+          </label>
+          <button onClick={handleReset} className="ml-auto text-[11px] font-bold text-slate-400 hover:text-emerald-600 flex items-center gap-1">
+            <RotateCcw size={12} /> Reset view
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-400 font-medium">
+          Drag to orbit, scroll to zoom. Rendered from the exported geometry
+          {rendererKind === 'software' ? ' on the CPU (WebGL unavailable or disabled).' : ' with WebGL.'}
+        </p>
+      </div>
+    </div>
+  );
+}
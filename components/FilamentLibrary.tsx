@@ -0,0 +1,119 @@
+import React, { useRef, useState } from 'react';
+import { Library, Plus, Trash2, Upload, Download } from 'lucide-react';
+import { Filament } from '../types';
+import { hexToRgb, rgbToHex } from '../utils/colorHelper';
+import { createFilamentId, parseFilamentLibrary, serializeFilamentLibrary, getDefaultFilaments } from '../utils/filamentLibrary';
+
+interface FilamentLibraryProps {
+  filaments: Filament[];
+  onChange: (filaments: Filament[]) => void;
+}
+
+export default function FilamentLibrary({ filaments, onChange }: FilamentLibraryProps) {
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [hex, setHex] = useState('#FFFFFF');
+  const [td, setTd] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const color = hexToRgb(hex);
+
+  const handleAdd = () => {
+    if (!name.trim() || !color) return;
+    const tdValue = td.trim() === '' ? undefined : parseFloat(td);
+    onChange([...filaments, { id: createFilamentId(), name: name.trim(), brand: brand.trim(), hex: rgbToHex(color), td: tdValue !== undefined && isFinite(tdValue) ? tdValue : undefined }]);
+    setName('');
+    setTd('');
+    setError(null);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        try {
+          onChange(parseFilamentLibrary(event.target?.result as string, filaments.map(f => f.id)));
+          setError(null);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Import failed');
+        }
+      };
+      reader.readAsText(file);
+    }
+    if (importRef.current) importRef.current.value = '';
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeFilamentLibrary(filaments)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = 'filament_library.json'; a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4 border-b border-slate-100 pb-4">
+        <div className="flex items-center gap-2">
+          <Library className="text-emerald-600" size={20} />
+          <h2 className="font-bold text-lg">Filament Library</h2>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => importRef.current?.click()} className="text-slate-500 hover:bg-slate-50 p-2 rounded-lg border border-slate-200" title="Import JSON">
+            <Upload size={14} />
+          </button>
+          <button onClick={handleExport} className="text-slate-500 hover:bg-slate-50 p-2 rounded-lg border border-slate-200" title="Export JSON">
+            <Download size={14} />
+          </button>
+          <input type="file" ref={importRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+        </div>
+      </div>
+
+      <ul className="space-y-2 max-h-64 overflow-y-auto pr-1">
+        {filaments.map(f => (
+          <li key={f.id} className="flex items-center gap-3 text-xs">
+            <span className="w-6 h-6 rounded-lg border border-slate-200 shrink-0" style={{ backgroundColor: f.hex }} />
+            <span className="flex-1 min-w-0">
+              <strong className="text-slate-800 block truncate">{f.name}</strong>
+              <span className="text-slate-400">{f.brand || 'Unbranded'} · {f.hex}{f.td !== undefined ? ` · TD ${f.td}` : ''}</span>
+            </span>
+            <button onClick={() => onChange(filaments.filter(x => x.id !== f.id))} className="text-slate-300 hover:text-red-500 p-1">
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+        {filaments.length === 0 && (
+          <li className="text-xs text-slate-400">No filaments yet. Add the spools you own below.</li>
+        )}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-2 mt-4 pt-4 border-t border-slate-100">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className="text-xs font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5" />
+        <input value={brand} onChange={(e) => setBrand(e.target.value)} placeholder="Brand" className="text-xs font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5" />
+        <div className="flex gap-2">
+          <input type="color" value={(color ? rgbToHex(color) : '#FFFFFF').toLowerCase()} onChange={(e) => setHex(e.target.value.toUpperCase())} className="w-8 h-8 rounded-lg border border-slate-200 cursor-pointer shrink-0" />
+          <input value={hex} onChange={(e) => setHex(e.target.value)} className={`w-full text-xs font-mono font-bold border rounded-lg px-2 py-1.5 ${color ? 'border-slate-200 text-slate-700' : 'border-red-300 text-red-500'}`} />
+        </div>
+        <input value={td} onChange={(e) => setTd(e.target.value)} placeholder="TD (optional)" type="number" min="0" step="0.1" className="text-xs font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5" />
+      </div>
+      <div className="flex justify-between items-center mt-3">
+        <button onClick={() => onChange(getDefaultFilaments())} className="text-[11px] font-bold text-slate-400 hover:underline">
+          Reset to presets
+        </button>
+        <button
+          onClick={handleAdd}
+          disabled={!name.trim() || !color}
+          className="text-xs font-bold text-white bg-emerald-600 hover:bg-emerald-700 px-3 py-2 rounded-lg flex items-center gap-1 transition-all disabled:opacity-30"
+        >
+          <Plus size={14} /> Add Filament
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-red-500 text-[11px] font-bold text-center mt-3 bg-red-50 py-2 rounded-lg">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Loader2, Scale } from 'lucide-react';
+import { RGB } from '../types';
+import { FilamentUsage } from '../utils/usageHelper';
+
+interface FilamentUsageTableProps {
+  usage: FilamentUsage | null;
+  palette: RGB[];
+  filamentNames: (string | null)[];
+  loading: boolean;
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+export default function FilamentUsageTable({ usage, palette, filamentNames, loading }: FilamentUsageTableProps) {
+  return (
+    <div className="w-full mt-4 p-4 bg-white rounded-2xl border border-slate-200">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1"><Scale size={14} /> Filament Estimate</span>
+        {loading && <Loader2 size={14} className="animate-spin text-slate-400" />}
+      </div>
+      {usage && (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] text-slate-400 uppercase tracking-wider text-right">
+                <th className="text-left font-bold pb-1">Slot</th>
+                <th className="font-bold pb-1">Grams</th>
+                <th className="font-bold pb-1">Meters</th>
+                <th className="font-bold pb-1">Purge</th>
+                <th className="font-bold pb-1">Loads</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-600 text-right">
+              {usage.slots.map((slot, i) => palette[i] && (
+                <tr key={i} className="border-t border-slate-100">
+                  <td className="py-1 text-left font-sans font-bold flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full border border-slate-200" style={{ backgroundColor: `rgb(${palette[i].r},${palette[i].g},${palette[i].b})` }} />
+                    <span className="truncate max-w-[120px]">{filamentNames[i] ?? `Slot ${i + 1}`}</span>
+                  </td>
+                  <td>{slot.grams.toFixed(2)}</td>
+                  <td>{slot.meters.toFixed(2)}</td>
+                  <td>{slot.purgeGrams.toFixed(2)}</td>
+                  <td>{slot.swapsIn}</td>
+                </tr>
+              ))}
+              <tr className="border-t-2 border-slate-200 font-bold text-slate-700">
+                <td className="py-1 text-left font-sans">Total</td>
+                <td>{usage.grams.toFixed(2)}</td>
+                <td>{usage.slots.reduce((sum, s) => sum + s.meters, 0).toFixed(2)}</td>
+                <td>{usage.purgeGrams.toFixed(2)}</td>
+                <td>{usage.swaps}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400 mt-3 font-medium">
+            {usage.layers} layers, {usage.swaps} filament changes, roughly {formatDuration(usage.seconds)}. Purge is the flush for each change; a prime tower adds more.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
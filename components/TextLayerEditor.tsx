@@ -0,0 +1,130 @@
+import React from 'react';
+import { AlignCenter, AlignLeft, AlignRight, Plus, Trash2, Type } from 'lucide-react';
+import { RGB, TextAlign, TextBlock } from '../types';
+import { BUNDLED_FONTS } from '../constants';
+import { rgbToHex } from '../utils/colorHelper';
+import { createTextBlock } from '../utils/textHelper';
+
+interface TextLayerEditorProps {
+  blocks: TextBlock[];
+  onChange: (blocks: TextBlock[]) => void;
+  colorCount: number;
+  palette: RGB[] | null;
+  widthMm: number;
+  heightMm: number;
+}
+
+const ALIGNMENTS: { value: TextAlign; icon: typeof AlignLeft }[] = [
+  { value: 'left', icon: AlignLeft },
+  { value: 'center', icon: AlignCenter },
+  { value: 'right', icon: AlignRight },
+];
+
+export default function TextLayerEditor({ blocks, onChange, colorCount, palette, widthMm, heightMm }: TextLayerEditorProps) {
+  const update = (id: string, patch: Partial<TextBlock>) =>
+    onChange(blocks.map(b => (b.id === id ? { ...b, ...patch } : b)));
+
+  const handleAdd = () => {
+    onChange([...blocks, createTextBlock('Your Name', widthMm, heightMm, colorCount)]);
+  };
+
+  const slotOptions = Array.from({ length: colorCount }, (_, i) => (
+    <option key={i} value={i}>Slot {i + 1}{palette?.[i] ? ` (${rgbToHex(palette[i])})` : ''}</option>
+  ));
+
+  const slider = (label: string, value: number, min: number, max: number, step: number, unit: string, onValue: (v: number) => void) => (
+    <div className="flex items-center gap-4">
+      <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">{label}</div>
+      <input
+        type="range" min={min} max={max} step={step}
+        value={value}
+        onChange={(e) => onValue(parseFloat(e.target.value))}
+        className="flex-1 h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-emerald-600"
+      />
+      <span className="w-12 text-xs font-bold text-right text-slate-500">{value}{unit}</span>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-sm font-bold text-slate-700 flex items-center gap-2"><Type size={16} className="text-emerald-600" /> Text</label>
+        <button
+          onClick={handleAdd}
+          className="text-xs font-bold text-emerald-600 hover:bg-emerald-50 px-3 py-1.5 rounded-lg border border-emerald-100 flex items-center gap-1 transition-all"
+        >
+          <Plus size={14} /> Add Text
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {blocks.map(block => (
+          <div key={block.id} className="p-4 rounded-xl border border-slate-200 bg-slate-50 space-y-3">
+            <div className="flex gap-2">
+              <textarea
+                value={block.text}
+                onChange={(e) => update(block.id, { text: e.target.value })}
+                rows={Math.min(4, block.text.split('\n').length)}
+                className="flex-1 text-sm font-medium text-slate-700 border border-slate-200 rounded-lg px-2 py-1.5 resize-none"
+              />
+              <button onClick={() => onChange(blocks.filter(b => b.id !== block.id))} className="text-slate-400 hover:text-red-500 p-1" title="Remove text">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={block.font}
+                onChange={(e) => update(block.id, { font: e.target.value })}
+                className="flex-1 text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+              >
+                {BUNDLED_FONTS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+              <div className="flex bg-white border border-slate-200 rounded-lg overflow-hidden">
+                {ALIGNMENTS.map(({ value, icon: Icon }) => (
+                  <button
+                    key={value}
+                    onClick={() => update(block.id, { align: value })}
+                    className={`p-1.5 ${block.align === value ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-slate-600'}`}
+                    title={`Align ${value}`}
+                  >
+                    <Icon size={14} />
+                  </button>
+                ))}
+              </div>
+            </div>
+            {slider('Size', block.sizeMm, 2, 30, 0.5, 'mm', v => update(block.id, { sizeMm: v }))}
+            {slider('X', block.xMm, 0, widthMm, 0.5, 'mm', v => update(block.id, { xMm: v }))}
+            {slider('Y', block.yMm, 0, heightMm, 0.5, 'mm', v => update(block.id, { yMm: v }))}
+            {slider('Rotation', block.rotation, -180, 180, 5, '°', v => update(block.id, { rotation: v }))}
+            <div className="flex items-center gap-4">
+              <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Color</div>
+              <select
+                value={Math.min(block.slot, colorCount - 1)}
+                onChange={(e) => update(block.id, { slot: parseInt(e.target.value) })}
+                className="flex-1 text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+              >
+                {slotOptions}
+              </select>
+            </div>
+            {slider('Outline', block.strokeMm, 0, 2, 0.1, 'mm', v => update(block.id, { strokeMm: v }))}
+            {block.strokeMm > 0 && (
+              <div className="flex items-center gap-4">
+                <div className="w-16 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">Outline Color</div>
+                <select
+                  value={Math.min(block.strokeSlot, colorCount - 1)}
+                  onChange={(e) => update(block.id, { strokeSlot: parseInt(e.target.value) })}
+                  className="flex-1 text-xs font-bold text-slate-600 border border-slate-200 rounded-lg px-2 py-1.5"
+                >
+                  {slotOptions}
+                </select>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-400 mt-2 font-medium">
+        Text is drawn after quantization and smoothing, so it stays sharp. Keep strokes at least one nozzle wide.
+      </p>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-// Bookmark physical dimensions
+import { BookmarkSettings, FilamentMaterial, PrintProfile } from './types';
+
+// Bookmark physical dimensions (defaults; the active size lives in BookmarkSettings)
 export const BOOKMARK_WIDTH_MM = 50;
 export const BOOKMARK_HEIGHT_MM = 160;
 export const ASPECT_RATIO = BOOKMARK_WIDTH_MM / BOOKMARK_HEIGHT_MM;
@@ -9,9 +11,187 @@ export const RES_PPM = 8; // Pixels per MM
 export const CANVAS_WIDTH = BOOKMARK_WIDTH_MM * RES_PPM; 
 export const CANVAS_HEIGHT = BOOKMARK_HEIGHT_MM * RES_PPM;
 
+// Limits for custom sizes, in mm
+export const MIN_SIZE_MM = 20;
+export const MAX_SIZE_MM = 250;
+
+export const SIZE_PRESETS = [
+  { label: 'Classic', widthMm: 50, heightMm: 160 },
+  { label: 'Slim', widthMm: 40, heightMm: 150 },
+  { label: 'Wide', widthMm: 60, heightMm: 200 },
+  { label: 'Coaster', widthMm: 90, heightMm: 90 },
+];
+
+// Filament slots. 2 = single-extruder swap, 8 = two AMS units.
+export const MIN_COLORS = 2;
+export const MAX_COLORS = 8;
+export const DEFAULT_COLOR_COUNT = 4;
+
+// Tactile depth per slot (mm). Sized for MAX_COLORS; only the first colorCount are used.
+export const DEFAULT_LAYER_HEIGHTS = [0.6, 0.8, 1.0, 1.2, 1.4, 1.6, 1.8, 2.0];
+
+// Quantization seed used until the user re-rolls
+export const DEFAULT_SEED = 1;
+
+// Printer nozzle (mm). Dither dots are sized relative to it.
+export const NOZZLE_OPTIONS = [0.2, 0.4, 0.6, 0.8];
+
+// Slicer layer settings; all exported heights land on these layer boundaries
+export const PRINT_PROFILE_PRESETS = [
+  { label: '0.20mm Standard', firstLayerHeight: 0.2, layerHeight: 0.2 },
+  { label: '0.16mm Optimal', firstLayerHeight: 0.2, layerHeight: 0.16 },
+  { label: '0.12mm Fine', firstLayerHeight: 0.2, layerHeight: 0.12 },
+  { label: '0.08mm Extra Fine', firstLayerHeight: 0.2, layerHeight: 0.08 },
+  { label: '0.24mm Draft', firstLayerHeight: 0.2, layerHeight: 0.24 },
+];
+export const DEFAULT_PRINT_PROFILE: PrintProfile = { firstLayerHeight: 0.2, layerHeight: 0.2, nozzleDiameter: 0.4, filamentDiameter: 1.75, filamentMaterial: 'PLA', filamentDensity: 1.24, purgeVolume: 280, bedWidth: 256, bedDepth: 256 };
+
+// Filament materials for the usage estimate (density in g/cm³)
+export const FILAMENT_MATERIALS: { label: FilamentMaterial; density: number }[] = [
+  { label: 'PLA', density: 1.24 },
+  { label: 'PETG', density: 1.27 },
+  { label: 'ABS', density: 1.04 },
+  { label: 'ASA', density: 1.07 },
+  { label: 'TPU', density: 1.21 },
+];
+export const FILAMENT_DIAMETERS = [1.75, 2.85];
+
+// Print-time estimate: average volumetric rate (mm³/s) for small, detailed parts and the
+// time one AMS filament change takes including its purge (s)
+export const ESTIMATE_FLOW_RATE = 8;
+export const ESTIMATE_SWAP_TIME = 50;
+
+// Build plates designs are centered and packed on (mm)
+export const BED_PRESETS = [
+  { label: 'X1 / P1 / A1', width: 256, depth: 256 },
+  { label: 'A1 mini', width: 180, depth: 180 },
+  { label: 'H2D', width: 350, depth: 320 },
+  { label: 'MK4', width: 250, depth: 210 },
+];
+
+// Plate packing: default gap between designs and from the bed edge (mm)
+export const PLATE_SPACING_MM = 5;
+
+export const DITHER_MODES = [
+  { value: 'none', label: 'None' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'ordered', label: 'Ordered (Bayer)' },
+  { value: 'halftone', label: 'Halftone Dots' },
+] as const;
+
+// Palette index for pixels outside the bookmark outline (and off the canvas)
+export const OUTSIDE_INDEX = 255;
+
+// Contour mode: Douglas–Peucker tolerance (mm)
+export const DEFAULT_CONTOUR_TOLERANCE = 0.08;
+
+export const OUTLINE_SHAPES = [
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'arch', label: 'Arched Top' },
+  { value: 'tab', label: 'Tab' },
+  { value: 'silhouette', label: 'Die-cut Silhouette' },
+] as const;
+
+export const FRAME_PATTERNS = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'scalloped', label: 'Scalloped' },
+] as const;
+
+// Fonts shipped in public/fonts (licenses alongside). Bold cuts survive a 0.4mm nozzle best.
+export const BUNDLED_FONTS = [
+  { id: 'open-sans', label: 'Open Sans Bold', family: 'Bookmark Open Sans', url: '/fonts/OpenSans-Bold.woff2', weight: '700', style: 'normal' },
+  { id: 'fira-sans', label: 'Fira Sans Medium', family: 'Bookmark Fira Sans', url: '/fonts/FiraSans-Medium.woff2', weight: '500', style: 'normal' },
+  { id: 'source-serif', label: 'Source Serif Bold', family: 'Bookmark Source Serif', url: '/fonts/SourceSerif4-Bold.woff2', weight: '700', style: 'normal' },
+  { id: 'source-code', label: 'Source Code Semibold', family: 'Bookmark Source Code', url: '/fonts/SourceCodePro-Semibold.woff2', weight: '600', style: 'normal' },
+] as const;
+
+// Text block line spacing, as a multiple of the font size
+export const TEXT_LINE_HEIGHT = 1.2;
+
+// Luminance stacking: transmission distance assumed for slots without one (mm), and how
+// much of its TD every filament but the top one is printed at before the next takes over
+export const DEFAULT_TRANSMISSION_DISTANCE = 2;
+export const STACK_BAND_TD_FRACTION = 0.75;
+
+// Batch mode: placeholder in the shared text blocks replaced by each design's name, and
+// the width of one design on the contact sheet (px)
+export const BATCH_NAME_TOKEN = '{name}';
+export const CONTACT_SHEET_CELL_WIDTH = 160;
+
+export const RELIEF_MODES = [
+  { value: 'off', label: 'Off' },
+  { value: 'relief', label: 'Relief Only' },
+  { value: 'overlay', label: 'Over Colors' },
+] as const;
+
 export const DEFAULT_PALETTE = [
   { r: 255, g: 255, b: 255 }, // White
   { r: 0, g: 0, b: 0 },       // Black
   { r: 255, g: 0, b: 0 },     // Red
   { r: 0, g: 0, b: 255 },     // Blue
-];
\ No newline at end of file
+  { r: 255, g: 215, b: 0 },   // Yellow
+  { r: 0, g: 150, b: 60 },    // Green
+  { r: 255, g: 120, b: 0 },   // Orange
+  { r: 130, g: 50, b: 160 },  // Purple
+];
+
+
+// Seed contents of the filament library on first run
+export const FILAMENT_PRESETS = [
+  { name: 'PLA Basic Jade White', brand: 'Bambu Lab', hex: '#FFFFFF', td: 3.6 },
+  { name: 'PLA Basic Black', brand: 'Bambu Lab', hex: '#000000', td: 0.6 },
+  { name: 'PLA Basic Red', brand: 'Bambu Lab', hex: '#C12E1F', td: 1.8 },
+  { name: 'PLA Basic Blue', brand: 'Bambu Lab', hex: '#0A2989', td: 1.2 },
+  { name: 'PLA Basic Yellow', brand: 'Bambu Lab', hex: '#F4EE2A', td: 4.2 },
+  { name: 'PLA Basic Bambu Green', brand: 'Bambu Lab', hex: '#00AE42', td: 2.2 },
+  { name: 'PLA Basic Orange', brand: 'Bambu Lab', hex: '#FF6A13', td: 2.6 },
+  { name: 'PLA Basic Purple', brand: 'Bambu Lab', hex: '#5E43B7', td: 1.4 },
+  { name: 'PLA Basic Gray', brand: 'Bambu Lab', hex: '#8E9089', td: 1.0 },
+  { name: 'PLA Basic Magenta', brand: 'Bambu Lab', hex: '#EC008C', td: 2.0 },
+];
+
+// Settings a new design starts from (and the CLI's defaults)
+export const DEFAULT_SETTINGS: BookmarkSettings = {
+  baseHeight: 0.8,
+  layerHeights: [...DEFAULT_LAYER_HEIGHTS],
+  colorCount: DEFAULT_COLOR_COUNT,
+  isTactile: false, // Default to Flat
+  widthMm: BOOKMARK_WIDTH_MM,
+  heightMm: BOOKMARK_HEIGHT_MM,
+  smoothing: 2,
+  quantizeMode: 'rgb',
+  seed: DEFAULT_SEED,
+  ditherMode: 'none',
+  ditherStrength: 0.8,
+  ditherDotScale: 1,
+  printProfile: { ...DEFAULT_PRINT_PROFILE },
+  meshMode: 'pixel',
+  contourTolerance: DEFAULT_CONTOUR_TOLERANCE,
+  contourSmoothing: true,
+  outlineShape: 'rectangle',
+  cornerRadius: 0,
+  holeEnabled: false,
+  holePosition: 'top',
+  holeOffset: 8,
+  holeDiameter: 5,
+  holeRingWidth: 1.5,
+  backDepth: 0.4,
+  frameEnabled: false,
+  frameWidth: 2,
+  frameInset: 1,
+  frameHeight: 1.2,
+  frameSlot: 1,
+  framePattern: 'solid',
+  stackMode: 'palette',
+  transmissionDistances: new Array(MAX_COLORS).fill(DEFAULT_TRANSMISSION_DISTANCE),
+  reliefMode: 'off',
+  reliefMinThickness: 0.8,
+  reliefMaxThickness: 3,
+  reliefInvert: false,
+  reliefGamma: 1,
+  reliefBlur: 0,
+  reliefSlot: 0,
+  minIslandArea: 1,
+  fixPrintability: false,
+};
@@ -4,16 +4,105 @@ export interface RGB {
   b: number;
 }
 
+export type Point = [number, number]; // x, y
+
+export type QuantizeMode = 'rgb' | 'lab';
+
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered' | 'halftone';
+
+export type MeshMode = 'pixel' | 'contour';
+
+export type StackMode = 'palette' | 'luminance';
+
+export type ReliefMode = 'off' | 'relief' | 'overlay';
+
+export type OutlineShape = 'rectangle' | 'arch' | 'tab' | 'silhouette';
+
+export type FramePattern = 'solid' | 'dashed' | 'scalloped';
+
+export type FilamentMaterial = 'PLA' | 'PETG' | 'ABS' | 'ASA' | 'TPU';
+
+export interface PrintProfile {
+  firstLayerHeight: number; // mm
+  layerHeight: number; // mm, every layer after the first
+  nozzleDiameter: number; // mm, e.g., 0.4
+  filamentDiameter: number; // mm, 1.75 or 2.85
+  filamentMaterial: FilamentMaterial; // filament type written to the slicer project
+  filamentDensity: number; // g/cm³, e.g., 1.24 for PLA
+  purgeVolume: number; // mm³ flushed for every filament change
+  bedWidth: number; // mm, build plate X
+  bedDepth: number; // mm, build plate Y
+}
+
 export interface BookmarkSettings {
   baseHeight: number; // mm, e.g., 0.6
-  layerHeights: [number, number, number, number]; // mm, e.g., [0.6, 0.8, 1.0, 1.2]
-  isTactile: boolean;
+  layerHeights: number[]; // mm per palette slot, e.g., [0.6, 0.8, 1.0, 1.2]
+  colorCount: number; // number of filaments / palette slots, MIN_COLORS..MAX_COLORS
+  isTactile: boolean; // false = every color is a single layer thick
   widthMm: number;
   heightMm: number;
   smoothing: number; // 0 (none) to 5 (heavy)
+  quantizeMode: QuantizeMode; // 'rgb' = bold sRGB k-means, 'lab' = perceptual CIELAB / ΔE2000
+  seed: number; // k-means++ seed; same seed + image + settings = same palette
+  ditherMode: DitherMode; // applied after palette selection; replaces smoothing when active
+  ditherStrength: number; // 0..1
+  ditherDotScale: number; // minimum dot size as a multiple of the nozzle diameter
+  printProfile: PrintProfile; // heights are snapped to its layers on export
+  meshMode: MeshMode; // 'pixel' = exact pixel columns, 'contour' = traced vector outlines
+  contourTolerance: number; // mm, outline simplification in contour mode
+  contourSmoothing: boolean; // round contour corners with Bézier curves
+  outlineShape: OutlineShape; // 'silhouette' = die-cut along an uploaded mask
+  cornerRadius: number; // mm
+  holeEnabled: boolean; // tassel/ribbon hole
+  holePosition: 'top' | 'bottom';
+  holeOffset: number; // mm from that edge to the hole center
+  holeDiameter: number; // mm
+  holeRingWidth: number; // mm of solid base color around the hole, 0 = none
+  frameEnabled: boolean; // raised border following the outline
+  frameWidth: number; // mm
+  frameInset: number; // mm from the outline edge to the frame
+  frameHeight: number; // mm above the base plate
+  frameSlot: number; // palette slot the frame is printed in
+  framePattern: FramePattern;
+  backDepth: number; // mm of the base plate given to the back artwork (double-sided only)
+  stackMode: StackMode; // 'palette' = one height per slot, 'luminance' = HueForge-style shading by thickness
+  transmissionDistances: number[]; // mm per palette slot, thickness at which a filament hides what is below
+  reliefMode: ReliefMode; // 'relief' = grayscale heightmap only (lithophane), 'overlay' = relief on top of the color layers
+  reliefMinThickness: number; // mm, where the image is lightest (darkest when inverted)
+  reliefMaxThickness: number; // mm, where the image is darkest (lightest when inverted)
+  reliefInvert: boolean; // false = dark is thick, as a backlit lithophane needs
+  reliefGamma: number; // applied to the grayscale before it becomes thickness
+  reliefBlur: number; // mm, roughly the Gaussian sigma that softens the surface; 0 = none
+  reliefSlot: number; // palette slot the relief is printed in
+  minIslandArea: number; // mm², color islands smaller than this are flagged as unprintable
+  fixPrintability: boolean; // remove thin features and small islands before export
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextBlock {
+  id: string;
+  text: string; // may span several lines
+  font: string; // BUNDLED_FONTS id
+  sizeMm: number; // font size (em height)
+  xMm: number; // anchor, from the left edge
+  yMm: number; // anchor (vertical middle of the block), from the top edge
+  rotation: number; // degrees, clockwise around the anchor
+  align: TextAlign; // which side of the text sits on the anchor
+  slot: number; // palette slot of the letters
+  strokeMm: number; // outline stroke around the letters, 0 = none
+  strokeSlot: number; // palette slot of the stroke
 }
 
 export interface ProcessingState {
   status: 'idle' | 'processing' | 'generating_stl' | 'zipping' | 'done' | 'error';
   message?: string;
-}
\ No newline at end of file
+  progress?: number; // 0..1 when the running stage reports it
+}
+export interface Filament {
+  id: string;
+  name: string; // e.g., "PLA Basic Jade White"
+  brand: string;
+  hex: string; // "#RRGGBB"
+  td?: number; // transmission distance (mm), as used by HueForge
+}
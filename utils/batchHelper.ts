@@ -0,0 +1,265 @@
+import JSZip from 'jszip';
+import { BookmarkSettings, RGB, TextBlock } from '../types';
+import { BATCH_NAME_TOKEN, CONTACT_SHEET_CELL_WIDTH, MAX_COLORS } from '../constants';
+import { drawQuantizedPreview, drawReliefPreview, getCenterCrop, getCroppedImg, loadImagePixels } from './imageHelper';
+import { createTextBlock, renderTextLayer } from './textHelper';
+import { mergePalettes, rgbToHex } from './colorHelper';
+import { getPrintSettings } from './layerHelper';
+import { ProcessedImage, ProgressCallback } from './pipeline';
+import { PipelineCancelledError, PipelineRunner } from './pipelineClient';
+import { PlateLayout, packPlates } from './plateHelper';
+import { PlateDesign } from './stlHelper';
+
+// Contact sheet spacing and caption line (px)
+const SHEET_GAP = 16;
+const SHEET_CAPTION = 20;
+
+// Longer side of a plate thumbnail (px)
+const PLATE_THUMBNAIL_SIZE = 512;
+
+export interface BatchItem {
+  name: string; // caption and file name
+  text: string | null; // replaces BATCH_NAME_TOKEN in the text blocks; null without a CSV
+  file: File;
+}
+
+export interface BatchOptions {
+  settings: BookmarkSettings; // the shared preset, as edited
+  lockedColors: (RGB | null)[];
+  textBlocks: TextBlock[];
+  silhouette: Uint8Array | null;
+  filamentNames: (string | null)[];
+  pack: boolean; // one 3MF with every design packed onto plates instead of one per design
+  plateSpacing: number; // mm, when packing
+}
+
+export interface BatchResult {
+  zip: Blob;
+  skipped: string[]; // "name: reason" for designs that failed
+  warnings: string[]; // designs that were built, but not quite as designed
+}
+
+const baseName = (path: string) => path.split(/[\\/]/).pop()!.toLowerCase();
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+/**
+ * Rows of a CSV with quoted fields ("" for a quote); blank lines are dropped.
+ */
+const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+};
+
+/**
+ * Turns a drop of files into designs. With a CSV among them, every `image,name` row is a
+ * design using the image of that file name (a header row starting with "image" is
+ * skipped) and rows whose image is missing are returned by name. Without one, every image
+ * is a design named after its file.
+ */
+export const getBatchItems = async (files: File[]): Promise<{ items: BatchItem[]; missing: string[] }> => {
+  const images = files.filter(f => f.type.startsWith('image/'));
+  const csv = files.find(f => f.name.toLowerCase().endsWith('.csv'));
+  if (!csv) return { items: images.map(file => ({ name: stripExtension(file.name), text: null, file })), missing: [] };
+
+  const byName = new Map(images.map(f => [baseName(f.name), f]));
+  const rows = parseCSV(await csv.text());
+  if (rows.length && rows[0][0].trim().toLowerCase() === 'image') rows.shift();
+  const items: BatchItem[] = [];
+  const missing: string[] = [];
+  for (const [image = '', name = ''] of rows) {
+    const file = byName.get(baseName(image.trim()));
+    if (!file) { missing.push(image.trim()); continue; }
+    items.push({ name: name.trim() || stripExtension(file.name), text: name.trim(), file });
+  }
+  return { items, missing };
+};
+
+/**
+ * The preset's text blocks for one design: the name fills every BATCH_NAME_TOKEN, or gets
+ * a block of its own when none of them has the placeholder.
+ */
+const getItemTextBlocks = (blocks: TextBlock[], text: string | null, settings: BookmarkSettings) => {
+  if (!text) return blocks.map(b => ({ ...b, text: b.text.split(BATCH_NAME_TOKEN).join('') }));
+  if (!blocks.some(b => b.text.includes(BATCH_NAME_TOKEN))) {
+    return [...blocks, createTextBlock(text, settings.widthMm, settings.heightMm, settings.colorCount)];
+  }
+  return blocks.map(b => ({ ...b, text: b.text.split(BATCH_NAME_TOKEN).join(text) }));
+};
+
+const readDataURL = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Not a readable image'));
+    img.src = src;
+  });
+
+// The 2D preview the editor would show for this design
+const drawPreview = (data: ProcessedImage, settings: BookmarkSettings) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = data.width;
+  canvas.height = data.height;
+  if (data.stack) drawQuantizedPreview(canvas, data.stack.levels, data.stack.colors);
+  else if (data.relief && settings.reliefMode === 'relief') drawReliefPreview(canvas, data.relief, settings.reliefMinThickness, settings.reliefMaxThickness);
+  else drawQuantizedPreview(canvas, data.indices, data.palette);
+  return canvas;
+};
+
+/**
+ * All previews on a grid, each captioned with its design's name.
+ */
+const drawContactSheet = (previews: { canvas: HTMLCanvasElement; name: string }[], settings: BookmarkSettings): Promise<Blob> => {
+  const cellW = CONTACT_SHEET_CELL_WIDTH;
+  const cellH = Math.round((cellW * settings.heightMm) / settings.widthMm);
+  const columns = Math.max(1, Math.min(previews.length, Math.ceil(Math.sqrt(previews.length))));
+  const rows = Math.ceil(previews.length / columns);
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * (cellW + SHEET_GAP) + SHEET_GAP;
+  canvas.height = rows * (cellH + SHEET_CAPTION + SHEET_GAP) + SHEET_GAP;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('No 2d context'));
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingEnabled = false;
+  ctx.font = '600 12px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  previews.forEach(({ canvas: preview, name }, k) => {
+    const x = SHEET_GAP + (k % columns) * (cellW + SHEET_GAP);
+    const y = SHEET_GAP + Math.floor(k / columns) * (cellH + SHEET_CAPTION + SHEET_GAP);
+    ctx.drawImage(preview, x, y, cellW, cellH);
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.strokeRect(x - 0.5, y - 0.5, cellW + 1, cellH + 1);
+    ctx.fillStyle = '#334155';
+    ctx.fillText(name, x + cellW / 2, y + cellH + SHEET_CAPTION / 2, cellW);
+  });
+  return new Promise((resolve, reject) => canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Contact sheet failed'))), 'image/png'));
+};
+
+/**
+ * Top view of one plate: every design's preview where packPlates put it.
+ */
+const drawPlateThumbnail = (previews: HTMLCanvasElement[], layout: PlateLayout, plate: number, settings: BookmarkSettings) => {
+  const { bedWidth, bedDepth } = settings.printProfile;
+  const scale = PLATE_THUMBNAIL_SIZE / Math.max(bedWidth, bedDepth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bedWidth * scale);
+  canvas.height = Math.round(bedDepth * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No 2d context');
+
+  ctx.fillStyle = '#e2e8f0';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingEnabled = false;
+  layout.placements.forEach((placement, k) => {
+    if (placement?.plate !== plate) return;
+    // Bed y points away from the front, canvas y down
+    ctx.drawImage(previews[k], placement.x * scale, (bedDepth - placement.y - settings.heightMm) * scale, settings.widthMm * scale, settings.heightMm * scale);
+  });
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Builds every design with the shared preset, one after the other on `runner`: center
+ * crop, text, process and 3MF export, exactly as the editor would. When packing, the
+ * designs instead go onto as few plates of the print profile's bed as they fit and come
+ * out as one 3MF. A design that fails is skipped and reported; aborting `signal` (and
+ * cancelling the runner) stops the batch.
+ */
+export const runBatch = async (
+  items: BatchItem[],
+  options: BatchOptions,
+  runner: PipelineRunner,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<BatchResult> => {
+  const { settings, lockedColors, silhouette, filamentNames } = options;
+  const exportSettings = getPrintSettings(settings).settings;
+  const zip = new JSZip();
+  const previews: { canvas: HTMLCanvasElement; name: string }[] = [];
+  const designs: PlateDesign[] = [];
+  const skipped: string[] = [];
+  const warnings: string[] = [];
+
+  for (let k = 0; k < items.length; k++) {
+    if (signal?.aborted) throw new PipelineCancelledError();
+    const item = items[k];
+    onProgress?.(`${item.name} (${k + 1}/${items.length})...`, k / items.length);
+    try {
+      const src = await readDataURL(item.file);
+      const image = await loadImage(src);
+      const crop = getCenterCrop(image.naturalWidth, image.naturalHeight, settings.widthMm, settings.heightMm);
+      const pixels = await loadImagePixels(await getCroppedImg(src, crop, settings.widthMm, settings.heightMm), settings.widthMm, settings.heightMm);
+      const textLayer = await renderTextLayer(getItemTextBlocks(options.textBlocks, item.text, settings), pixels.width, pixels.height, settings.widthMm);
+      const data = await runner.run('process', {
+        pixels: pixels.data, width: pixels.width, height: pixels.height, settings, lockedColors, silhouette, textLayer, backPixels: null,
+      }, [pixels.data.buffer]);
+      const preview = drawPreview(data, settings);
+      if (options.pack) {
+        designs.push({ name: item.name, indices: data.indices, backIndices: null, stack: data.stack, relief: data.relief, palette: data.palette });
+      } else {
+        const model = await runner.run('3mf', {
+          indices: data.indices, backIndices: null, stack: data.stack, relief: data.relief, settings: exportSettings,
+          palette: data.palette, thumbnailSrc: preview.toDataURL('image/png'), filamentNames,
+        });
+        zip.file(`${String(k + 1).padStart(2, '0')}_${item.name.replace(/[^\w-]+/g, '_')}.3mf`, model);
+      }
+      previews.push({ canvas: preview, name: item.name });
+    } catch (err) {
+      if (err instanceof PipelineCancelledError) throw err;
+      console.error(err);
+      skipped.push(`${item.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (options.pack && designs.length) {
+    const { bedWidth, bedDepth } = settings.printProfile;
+    const layout = packPlates(designs.map(() => ({ width: settings.widthMm, height: settings.heightMm })), bedWidth, bedDepth, options.plateSpacing);
+    designs.forEach((d, k) => { if (!layout.placements[k]) skipped.push(`${d.name}: larger than the ${bedWidth}×${bedDepth} mm bed`); });
+    const { remapped } = mergePalettes(designs.filter((_, k) => layout.placements[k]).map(d => d.palette), filamentNames);
+    if (remapped.length) {
+      warnings.push(`${remapped.length} colors did not fit the ${MAX_COLORS} shared filament slots and print as the nearest one (${remapped.map(r => `${rgbToHex(r.from)} → ${rgbToHex(r.to)}`).join(', ')}). Lock the palette colors so every design uses the same filaments.`);
+    }
+    if (layout.plateCount > 0) {
+      onProgress?.(`Packing onto ${layout.plateCount} plate${layout.plateCount > 1 ? 's' : ''}...`, 1);
+      const canvases = previews.map(p => p.canvas);
+      const thumbnails = Array.from({ length: layout.plateCount }, (_, plate) => drawPlateThumbnail(canvases, layout, plate, settings));
+      const model = await runner.run('plate', { designs, layout, settings: exportSettings, thumbnails, filamentNames });
+      zip.file('bookmark_plates.3mf', model);
+    }
+  }
+
+  onProgress?.('Drawing contact sheet...', 1);
+  if (previews.length) zip.file('contact_sheet.png', await drawContactSheet(previews, settings));
+  if (skipped.length) zip.file('skipped.txt', skipped.join('\n'));
+  if (warnings.length) zip.file('warnings.txt', warnings.join('\n'));
+  return { zip: await zip.generateAsync({ type: 'blob' }), skipped, warnings };
+};
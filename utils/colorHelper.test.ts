@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { RGB } from '../types';
+import { mergePalettes } from './colorHelper';
+
+const gray = (v: number): RGB => ({ r: v, g: v, b: v });
+
+describe('mergePalettes', () => {
+  it('shares slots between equal colors and names them after the first design', () => {
+    const merged = mergePalettes([[gray(255), gray(0)], [gray(0), gray(128)]], ['White', 'Black']);
+    expect(merged.palette).toEqual([gray(255), gray(0), gray(128)]);
+    expect(merged.slotMaps).toEqual([[0, 1], [1, 2]]);
+    expect(merged.filamentNames).toEqual(['White', 'Black', null]);
+    expect(merged.remapped).toEqual([]);
+  });
+
+  it('maps colors beyond the slot limit to the nearest slot', () => {
+    const merged = mergePalettes([[gray(0), gray(255)], [gray(20), gray(240)]], [], 2);
+    expect(merged.palette).toHaveLength(2);
+    expect(merged.slotMaps[1]).toEqual([0, 1]);
+    expect(merged.remapped).toEqual([{ from: gray(20), to: gray(0) }, { from: gray(240), to: gray(255) }]);
+  });
+});
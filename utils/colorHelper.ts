@@ -0,0 +1,149 @@
+import { RGB } from '../types';
+import { MAX_COLORS } from '../constants';
+
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// --- Hex ---
+
+export const rgbToHex = (c: RGB) => {
+  const f = (x: number) => Math.round(x).toString(16).padStart(2, '0').toUpperCase();
+  return `#${f(c.r)}${f(c.g)}${f(c.b)}`;
+};
+
+/**
+ * Parses "#RRGGBB" / "RRGGBB" (or the 3-digit short form). Returns null for anything else.
+ */
+export const hexToRgb = (hex: string): RGB | null => {
+  let h = hex.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(h)) h = h.split('').map(ch => ch + ch).join('');
+  if (!/^[0-9a-f]{6}$/i.test(h)) return null;
+  return {
+    r: parseInt(h.substring(0, 2), 16),
+    g: parseInt(h.substring(2, 4), 16),
+    b: parseInt(h.substring(4, 6), 16),
+  };
+};
+
+// --- CIELAB (D65) ---
+
+const srgbToLinear = (v: number) => {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const linearToSrgb = (v: number) => {
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055;
+  return Math.max(0, Math.min(255, Math.round(c * 255)));
+};
+
+const XN = 0.95047, YN = 1.0, ZN = 1.08883;
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+const labFInv = (t: number) => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+
+export const rgbToLab = (c: RGB): Lab => {
+  const r = srgbToLinear(c.r), g = srgbToLinear(c.g), b = srgbToLinear(c.b);
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / XN;
+  const y = (0.2126729 * r + 0.7151522 * g + 0.0721750 * b) / YN;
+  const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / ZN;
+  const fx = labF(x), fy = labF(y), fz = labF(z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+export const labToRgb = (lab: Lab): RGB => {
+  const fy = (lab.l + 16) / 116;
+  const fx = fy + lab.a / 500;
+  const fz = fy - lab.b / 200;
+  const x = labFInv(fx) * XN, y = labFInv(fy) * YN, z = labFInv(fz) * ZN;
+  return {
+    r: linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    g: linearToSrgb(-0.9692660 * x + 1.8760108 * y + 0.0415560 * z),
+    b: linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  };
+};
+
+/**
+ * CIEDE2000 color difference. ~1 is a just-noticeable difference; under ~5 reads as "the same filament".
+ */
+export const deltaE2000 = (c1: Lab, c2: Lab): number => {
+  const rad = Math.PI / 180;
+  const C1 = Math.hypot(c1.a, c1.b), C2 = Math.hypot(c2.a, c2.b);
+  const Cbar7 = ((C1 + C2) / 2) ** 7;
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + 25 ** 7)));
+  const a1 = (1 + G) * c1.a, a2 = (1 + G) * c2.a;
+  const C1p = Math.hypot(a1, c1.b), C2p = Math.hypot(a2, c2.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(c1.b, a1), h2p = hue(c2.b, a2);
+
+  const dLp = c2.l - c1.l;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lbarp = (c1.l + c2.l) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) > 180) hbarp += h1p + h2p < 360 ? 360 : -360;
+    hbarp /= 2;
+  }
+  const T = 1
+    - 0.17 * Math.cos((hbarp - 30) * rad)
+    + 0.24 * Math.cos(2 * hbarp * rad)
+    + 0.32 * Math.cos((3 * hbarp + 6) * rad)
+    - 0.20 * Math.cos((4 * hbarp - 63) * rad);
+  const dTheta = 30 * Math.exp(-(((hbarp - 275) / 25) ** 2));
+  const Cbarp7 = Cbarp ** 7;
+  const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + 25 ** 7));
+  const Sl = 1 + (0.015 * (Lbarp - 50) ** 2) / Math.sqrt(20 + (Lbarp - 50) ** 2);
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  return Math.sqrt(
+    (dLp / Sl) ** 2 + (dCp / Sc) ** 2 + (dHp / Sh) ** 2 + Rt * (dCp / Sc) * (dHp / Sh)
+  );
+};
+
+// --- Shared palettes ---
+
+/**
+ * One filament list for several designs: designs quantized with the same locked colors
+ * share their slots and any other color gets a slot of its own, up to `maxSlots`. Colors
+ * beyond that print in the nearest slot's color and are listed in `remapped`. The
+ * filament names belong to the first design's slots; colors only later designs use stay
+ * unnamed. Returns the list and each design's slot map into it.
+ */
+export const mergePalettes = (palettes: RGB[][], filamentNames: (string | null)[], maxSlots = MAX_COLORS) => {
+  const palette: RGB[] = [];
+  const names: (string | null)[] = [];
+  const remapped: { from: RGB; to: RGB }[] = [];
+  const slotMaps = palettes.map((p, k) => p.map((color, c) => {
+    const hex = rgbToHex(color);
+    const found = palette.findIndex(q => rgbToHex(q) === hex);
+    if (found >= 0) return found;
+    if (palette.length < maxSlots) {
+      palette.push(color);
+      names.push(k === 0 ? filamentNames[c] ?? null : null);
+      return palette.length - 1;
+    }
+    const lab = rgbToLab(color);
+    const distances = palette.map(q => deltaE2000(lab, rgbToLab(q)));
+    const nearest = distances.indexOf(Math.min(...distances));
+    remapped.push({ from: color, to: palette[nearest] });
+    return nearest;
+  }));
+  return { palette, filamentNames: names, slotMaps, remapped };
+};
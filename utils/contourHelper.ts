@@ -0,0 +1,349 @@
+import { Point } from '../types';
+import { OUTSIDE_INDEX } from '../constants';
+
+// --- Types ---
+
+export interface ContourOptions {
+  tolerance: number; // Douglas–Peucker tolerance, in pixels
+  smooth: boolean; // round corners with quadratic Bézier segments
+}
+
+// A boundary run between two junctions (or a closed loop), shared by the regions on both sides
+interface Chain {
+  vertices: number[]; // grid vertex ids along the run
+  points: Point[]; // simplified outline in grid coordinates
+}
+
+export interface ContourMap {
+  indices: Uint8Array;
+  width: number;
+  height: number;
+  chains: Chain[];
+  edgeChain: Int32Array; // chain id per grid edge, -1 = not a boundary
+  edgePos: Int32Array; // position of the edge within its chain
+}
+
+export interface ContourPolygon {
+  outer: Point[]; // counter-clockwise once y is flipped to mesh space
+  holes: Point[][];
+}
+
+// Junction points where regions meet only diagonally are pulled apart by this much (pixels)
+const PINCH_OFFSET = 0.1;
+
+// --- Grid topology ---
+// Vertices sit on pixel corners (gx 0..width, gy 0..height). Horizontal edges come first,
+// running (gx,gy)->(gx+1,gy); vertical edges follow, running (gx,gy)->(gx,gy+1).
+
+const createGrid = (indices: Uint8Array, width: number, height: number) => {
+  const hCount = (height + 1) * width;
+  const edgeCount = hCount + height * (width + 1);
+  const pixel = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? OUTSIDE_INDEX : indices[y * width + x]);
+
+  // Pixels on either side: "a" is above/left, "b" is below/right
+  const sides = (e: number): [number, number] => {
+    if (e < hCount) {
+      const gx = e % width, gy = Math.floor(e / width);
+      return [pixel(gx, gy - 1), pixel(gx, gy)];
+    }
+    const v = e - hCount, gx = v % (width + 1), gy = Math.floor(v / (width + 1));
+    return [pixel(gx - 1, gy), pixel(gx, gy)];
+  };
+  const ends = (e: number): [number, number] => {
+    if (e < hCount) {
+      const gx = e % width, gy = Math.floor(e / width);
+      const v = gy * (width + 1) + gx;
+      return [v, v + 1];
+    }
+    const v = e - hCount;
+    return [v, v + width + 1];
+  };
+  // Edges touching a vertex: east, south, west, north
+  const incident = (v: number) => {
+    const gx = v % (width + 1), gy = Math.floor(v / (width + 1));
+    const out: number[] = [];
+    if (gx < width) out.push(gy * width + gx);
+    if (gy < height) out.push(hCount + gy * (width + 1) + gx);
+    if (gx > 0) out.push(gy * width + gx - 1);
+    if (gy > 0) out.push(hCount + (gy - 1) * (width + 1) + gx);
+    return out;
+  };
+  const isBoundary = (e: number) => { const [a, b] = sides(e); return a !== b; };
+  const coords = (v: number): Point => [v % (width + 1), Math.floor(v / (width + 1))];
+  const midpoint = (e: number): Point => {
+    const [p, q] = ends(e).map(coords);
+    return [(p[0] + q[0]) / 2, (p[1] + q[1]) / 2];
+  };
+
+  return { hCount, edgeCount, pixel, sides, ends, incident, isBoundary, coords, midpoint };
+};
+
+// --- Simplification ---
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+  const dx = bx - ax, dy = by - ay;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lenSq));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+/**
+ * Douglas–Peucker on an open polyline; both endpoints are always kept.
+ */
+const simplifyOpen = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3 || tolerance <= 0) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let maxDist = 0, index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegment(points[i], points[first], points[last]);
+      if (d > maxDist) { maxDist = d; index = i; }
+    }
+    if (index !== -1 && maxDist > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+/**
+ * Douglas–Peucker on a closed loop, split at the point farthest from the start.
+ */
+const simplifyClosed = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 4) return points;
+  let far = 0, maxDist = 0;
+  for (let i = 1; i < points.length; i++) {
+    const d = Math.hypot(points[i][0] - points[0][0], points[i][1] - points[0][1]);
+    if (d > maxDist) { maxDist = d; far = i; }
+  }
+  const a = simplifyOpen(points.slice(0, far + 1), tolerance);
+  const b = simplifyOpen([...points.slice(far), points[0]], tolerance);
+  const loop = [...a, ...b.slice(1, -1)];
+  return loop.length >= 3 ? loop : points;
+};
+
+const BEZIER_STEPS = 4;
+
+/**
+ * Replaces each interior corner with a quadratic Bézier from the midpoint of the edge
+ * before it to the midpoint of the edge after it, using the corner as control point.
+ * Open polylines keep their endpoints so neighbouring chains still meet.
+ */
+const smoothPolyline = (points: Point[], closed: boolean): Point[] => {
+  const n = points.length;
+  if (n < 3) return points;
+  const mid = (a: Point, b: Point): Point => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  const out: Point[] = closed ? [] : [points[0]];
+  const from = closed ? 0 : 1, to = closed ? n : n - 1;
+  for (let i = from; i < to; i++) {
+    const prev = points[(i - 1 + n) % n], corner = points[i], next = points[(i + 1) % n];
+    const start = mid(prev, corner), end = mid(corner, next);
+    for (let s = 0; s < BEZIER_STEPS; s++) {
+      const t = s / BEZIER_STEPS, u = 1 - t;
+      out.push([
+        u * u * start[0] + 2 * u * t * corner[0] + t * t * end[0],
+        u * u * start[1] + 2 * u * t * corner[1] + t * t * end[1],
+      ]);
+    }
+  }
+  if (!closed) out.push(points[n - 1]);
+  return out;
+};
+
+// --- Tracing ---
+
+/**
+ * Traces every color boundary in `indices` into shared chains (marching squares: the
+ * outline passes through the midpoint of each boundary pixel edge, so staircases
+ * become diagonals), then simplifies and optionally smooths each chain once. Because
+ * both neighbouring regions reuse the same chain, they stay gap- and overlap-free.
+ * Pixels off the canvas count as OUTSIDE_INDEX; outline chains are never smoothed.
+ */
+export const traceContours = (indices: Uint8Array, width: number, height: number, { tolerance, smooth }: ContourOptions): ContourMap => {
+  const grid = createGrid(indices, width, height);
+  const { edgeCount, ends, incident, isBoundary, coords, midpoint, sides } = grid;
+  const edgeChain = new Int32Array(edgeCount).fill(-1);
+  const edgePos = new Int32Array(edgeCount);
+  const chains: Chain[] = [];
+
+  const degree = (v: number) => incident(v).filter(isBoundary).length;
+  const onBorder = (v: number) => {
+    const [gx, gy] = coords(v);
+    return gx === 0 || gy === 0 || gx === width || gy === height;
+  };
+  // Where an edge meets a junction. At 4-way junctions the north/west edges end slightly
+  // up-left and the south/east edges slightly down-right, so diagonal regions never pinch.
+  const endpoint = (v: number, e: number): Point => {
+    const [x, y] = coords(v);
+    if (degree(v) !== 4) return [x, y];
+    const offset = ends(e)[1] === v ? -PINCH_OFFSET : PINCH_OFFSET;
+    return [x + offset, y + offset];
+  };
+
+  const addChain = (vertices: number[], edges: number[], closed: boolean) => {
+    const id = chains.length;
+    edges.forEach((e, i) => { edgeChain[e] = id; edgePos[e] = i; });
+
+    const points: Point[] = closed ? [] : [endpoint(vertices[0], edges[0])];
+    edges.forEach((e, i) => {
+      if ((i > 0 || closed) && onBorder(vertices[i])) points.push(coords(vertices[i]));
+      points.push(midpoint(e));
+    });
+    if (!closed) points.push(endpoint(vertices[vertices.length - 1], edges[edges.length - 1]));
+
+    const [a, b] = sides(edges[0]);
+    const isOutline = a === OUTSIDE_INDEX || b === OUTSIDE_INDEX;
+    let simplified = closed ? simplifyClosed(points, tolerance) : simplifyOpen(points, tolerance);
+    if (smooth && !isOutline) simplified = smoothPolyline(simplified, closed);
+    chains.push({ vertices, points: simplified });
+  };
+
+  const walk = (start: number, firstEdge: number) => {
+    const vertices = [start];
+    const edges: number[] = [];
+    let v = start, e = firstEdge;
+    while (true) {
+      edgeChain[e] = -2; // claimed
+      edges.push(e);
+      const [p, q] = ends(e);
+      v = p === v ? q : p;
+      vertices.push(v);
+      if (v === start || degree(v) !== 2) break;
+      const next = incident(v).find(n => n !== e && isBoundary(n));
+      if (next === undefined || edgeChain[next] !== -1) break;
+      e = next;
+    }
+    return { vertices, edges };
+  };
+
+  // Open chains start and end at junctions (vertices where three or four boundary edges meet)
+  for (let e = 0; e < edgeCount; e++) {
+    if (edgeChain[e] !== -1 || !isBoundary(e)) continue;
+    for (const v of ends(e)) {
+      if (degree(v) === 2) continue;
+      for (const first of incident(v)) {
+        if (edgeChain[first] !== -1 || !isBoundary(first)) continue;
+        const { vertices, edges } = walk(v, first);
+        addChain(vertices, edges, false);
+      }
+    }
+  }
+  // Whatever is left forms junction-free closed loops
+  for (let e = 0; e < edgeCount; e++) {
+    if (edgeChain[e] !== -1 || !isBoundary(e)) continue;
+    const { vertices, edges } = walk(ends(e)[0], e);
+    addChain(vertices.slice(0, -1), edges, true);
+  }
+
+  return { indices, width, height, chains, edgeChain, edgePos };
+};
+
+// --- Regions ---
+
+const signedArea = (ring: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x0, y0] = ring[i], [x1, y1] = ring[(i + 1) % ring.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  return area / 2;
+};
+
+const pointInRing = ([px, py]: Point, ring: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i], [xj, yj] = ring[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Polygons (outer ring + holes) covering every pixel whose index satisfies `inRegion`,
+ * built from the shared chains. Rings keep the region on their left in mesh space
+ * (y flipped), i.e. outers are counter-clockwise and holes clockwise.
+ */
+export const getRegionPolygons = (map: ContourMap, inRegion: (index: number) => boolean): ContourPolygon[] => {
+  const { indices, width, height, chains, edgeChain, edgePos } = map;
+  const { edgeCount, ends, incident, pixel, hCount } = createGrid(indices, width, height);
+  const inside = (index: number) => index !== OUTSIDE_INDEX && inRegion(index);
+
+  // Start vertex of an edge walked with the region on its left (in grid space, y down), or -1
+  const startOf = (e: number) => {
+    if (edgeChain[e] < 0) return -1;
+    const [p, q] = ends(e);
+    let a: boolean, b: boolean;
+    if (e < hCount) {
+      const gx = e % width, gy = Math.floor(e / width);
+      a = inside(pixel(gx, gy - 1)); b = inside(pixel(gx, gy));
+    } else {
+      const v = e - hCount, gx = v % (width + 1), gy = Math.floor(v / (width + 1));
+      a = inside(pixel(gx - 1, gy)); b = inside(pixel(gx, gy));
+    }
+    if (a === b) return -1;
+    // Horizontal: region above walks east. Vertical: region on the right walks south.
+    return e < hCount ? (a ? p : q) : (b ? p : q);
+  };
+
+  const visited = new Uint8Array(edgeCount);
+  const rings: Point[][] = [];
+
+  for (let e0 = 0; e0 < edgeCount; e0++) {
+    if (visited[e0] || startOf(e0) === -1) continue;
+
+    // Walk directed edges until the loop closes
+    const loop: { edge: number; from: number }[] = [];
+    let e = e0, from = startOf(e0);
+    while (!visited[e]) {
+      visited[e] = 1;
+      loop.push({ edge: e, from });
+      const [p, q] = ends(e);
+      const v = p === from ? q : p;
+      const candidates = incident(v).filter(n => !visited[n] || n === e0).filter(n => n !== e && startOf(n) === v);
+      if (candidates.length === 0) break;
+      // At a 4-way junction, stay on the same side (north/west vs south/east) as the
+      // incoming edge, matching how traceContours split the junction point
+      const cameFromNorthWest = q === v;
+      const next = candidates.find(n => (ends(n)[1] === v) === cameFromNorthWest) ?? candidates[0];
+      e = next; from = v;
+    }
+
+    // Rotate so the walk starts at the beginning of a chain, then stitch chain outlines
+    const forward = ({ edge, from }: { edge: number; from: number }) => chains[edgeChain[edge]].vertices[edgePos[edge]] === from;
+    const chainStart = loop.findIndex(step => {
+      const chain = chains[edgeChain[step.edge]];
+      return forward(step) ? edgePos[step.edge] === 0 : edgePos[step.edge] === chain.vertices.length - 2;
+    });
+    const ordered = chainStart > 0 ? [...loop.slice(chainStart), ...loop.slice(0, chainStart)] : loop;
+
+    const ring: Point[] = [];
+    const push = (p: Point) => {
+      const last = ring[ring.length - 1];
+      if (!last || last[0] !== p[0] || last[1] !== p[1]) ring.push(p);
+    };
+    let lastChain = -1;
+    for (const step of ordered) {
+      const id = edgeChain[step.edge];
+      if (id === lastChain) continue;
+      lastChain = id;
+      const points = forward(step) ? chains[id].points : [...chains[id].points].reverse();
+      points.forEach(push);
+    }
+    const first = ring[0], last = ring[ring.length - 1];
+    if (ring.length > 1 && first[0] === last[0] && first[1] === last[1]) ring.pop();
+    if (ring.length >= 3) rings.push(ring);
+  }
+
+  // Grid y runs down, so counter-clockwise in mesh space has negative area here
+  const outers = rings.filter(r => signedArea(r) < 0).map(outer => ({ outer, holes: [] as Point[][], area: -signedArea(outer) }));
+  outers.sort((a, b) => a.area - b.area);
+  for (const hole of rings.filter(r => signedArea(r) > 0)) {
+    const probe: Point = [(hole[0][0] + hole[1][0]) / 2, (hole[0][1] + hole[1][1]) / 2];
+    outers.find(o => pointInRing(probe, o.outer))?.holes.push(hole);
+  }
+  return outers.map(({ outer, holes }) => ({ outer, holes }));
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { RGB } from '../types';
+import { ditherImage } from './ditherHelper';
+
+const palette: RGB[] = [{ r: 0, g: 0, b: 255 }, { r: 128, g: 128, b: 128 }];
+
+// A grayish blue: closer to the gray in sRGB, but to the blue by ΔE2000
+const pixels = new Uint8ClampedArray(4 * 4 * 4).map((_, i) => [90, 90, 170, 255][i % 4]);
+
+describe('ditherImage', () => {
+  it('matches colors by sRGB distance in rgb mode', () => {
+    const indices = ditherImage(pixels, 4, 4, palette, { mode: 'none', strength: 0, cellPx: 1, quantizeMode: 'rgb' });
+    expect([...new Set(indices)]).toEqual([1]);
+  });
+
+  it('matches colors by ΔE2000 in lab mode, like the quantizer', () => {
+    for (const mode of ['none', 'floyd-steinberg', 'ordered'] as const) {
+      const indices = ditherImage(pixels, 4, 4, palette, { mode, strength: 0, cellPx: 1, quantizeMode: 'lab' });
+      expect([...new Set(indices)]).toEqual([0]);
+    }
+  });
+});
@@ -0,0 +1,188 @@
+import { DitherMode, QuantizeMode, RGB } from '../types';
+import { deltaE2000, rgbToLab } from './colorHelper';
+
+// 4x4 Bayer matrix (dispersed dots), values 0..15
+const BAYER_4 = [
+  0, 8, 2, 10,
+  12, 4, 14, 6,
+  3, 11, 1, 9,
+  15, 7, 13, 5,
+];
+
+// 4x4 clustered-dot matrix: thresholds grow outward from the centre, so darker
+// tones form round dots that stay printable instead of isolated single cells
+const CLUSTERED_4 = [
+  12, 5, 6, 13,
+  4, 0, 1, 7,
+  11, 3, 2, 8,
+  15, 10, 9, 14,
+];
+
+export interface DitherOptions {
+  mode: DitherMode;
+  strength: number; // 0..1
+  cellPx: number; // dither cell size in pixels; one cell = the smallest printable dot
+  quantizeMode: QuantizeMode; // colors go to the slot the quantizer would pick: sRGB distance or ΔE2000
+}
+
+type NearestIndex = (r: number, g: number, b: number) => number;
+
+/**
+ * Nearest palette slot by the quantizer's metric. The ΔE2000 lookup is cached per
+ * (clamped, rounded) color, as the quantizer's own final assignment is.
+ */
+const createNearestIndex = (palette: RGB[], quantizeMode: QuantizeMode): NearestIndex => {
+  if (quantizeMode === 'rgb') {
+    return (r, g, b) => {
+      let best = 0;
+      let minDist = Infinity;
+      for (let j = 0; j < palette.length; j++) {
+        const c = palette[j];
+        const d = (r - c.r) ** 2 + (g - c.g) ** 2 + (b - c.b) ** 2;
+        if (d < minDist) { minDist = d; best = j; }
+      }
+      return best;
+    };
+  }
+  const labs = palette.map(rgbToLab);
+  const cache = new Map<number, number>();
+  const channel = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+  return (r, g, b) => {
+    const color = { r: channel(r), g: channel(g), b: channel(b) };
+    const key = (color.r << 16) | (color.g << 8) | color.b;
+    let best = cache.get(key);
+    if (best === undefined) {
+      const lab = rgbToLab(color);
+      let minDist = Infinity;
+      best = 0;
+      for (let j = 0; j < labs.length; j++) {
+        const d = deltaE2000(lab, labs[j]);
+        if (d < minDist) { minDist = d; best = j; }
+      }
+      cache.set(key, best);
+    }
+    return best;
+  };
+};
+
+/**
+ * Per-channel threshold spread for ordered/halftone: the mean gap between each palette
+ * color and its closest neighbour, so a sparse palette still gets full tonal ramps.
+ */
+const getPaletteSpread = (palette: RGB[]) => {
+  if (palette.length < 2) return 0;
+  let total = 0;
+  for (let i = 0; i < palette.length; i++) {
+    let minDist = Infinity;
+    for (let j = 0; j < palette.length; j++) {
+      if (i === j) continue;
+      const d = Math.sqrt((palette[i].r - palette[j].r) ** 2 + (palette[i].g - palette[j].g) ** 2 + (palette[i].b - palette[j].b) ** 2);
+      if (d < minDist) minDist = d;
+    }
+    total += minDist;
+  }
+  return total / palette.length / Math.sqrt(3);
+};
+
+/**
+ * Averages the source into cellPx x cellPx blocks so dithering works at dot resolution.
+ */
+const downsample = (data: Uint8ClampedArray, width: number, height: number, cellPx: number) => {
+  const cw = Math.ceil(width / cellPx);
+  const ch = Math.ceil(height / cellPx);
+  const cells = new Float32Array(cw * ch * 3);
+  const counts = new Uint32Array(cw * ch);
+  for (let y = 0; y < height; y++) {
+    const cy = Math.floor(y / cellPx);
+    for (let x = 0; x < width; x++) {
+      const ci = cy * cw + Math.floor(x / cellPx);
+      const i = (y * width + x) * 4;
+      cells[ci * 3] += data[i]; cells[ci * 3 + 1] += data[i + 1]; cells[ci * 3 + 2] += data[i + 2];
+      counts[ci]++;
+    }
+  }
+  for (let ci = 0; ci < cw * ch; ci++) {
+    cells[ci * 3] /= counts[ci]; cells[ci * 3 + 1] /= counts[ci]; cells[ci * 3 + 2] /= counts[ci];
+  }
+  return { cells, cw, ch };
+};
+
+/**
+ * Serpentine Floyd–Steinberg error diffusion; strength scales how much error is carried.
+ */
+const floydSteinberg = (cells: Float32Array, cw: number, ch: number, palette: RGB[], nearestIndex: NearestIndex, strength: number) => {
+  const out = new Uint8Array(cw * ch);
+  const spread = (x: number, y: number, er: number, eg: number, eb: number, w: number) => {
+    if (x < 0 || x >= cw || y >= ch) return;
+    const i = (y * cw + x) * 3;
+    cells[i] += er * w; cells[i + 1] += eg * w; cells[i + 2] += eb * w;
+  };
+  for (let y = 0; y < ch; y++) {
+    const ltr = y % 2 === 0;
+    const dir = ltr ? 1 : -1;
+    for (let n = 0; n < cw; n++) {
+      const x = ltr ? n : cw - 1 - n;
+      const i = (y * cw + x) * 3;
+      const r = Math.max(0, Math.min(255, cells[i]));
+      const g = Math.max(0, Math.min(255, cells[i + 1]));
+      const b = Math.max(0, Math.min(255, cells[i + 2]));
+      const idx = nearestIndex(r, g, b);
+      out[y * cw + x] = idx;
+      const er = (r - palette[idx].r) * strength;
+      const eg = (g - palette[idx].g) * strength;
+      const eb = (b - palette[idx].b) * strength;
+      spread(x + dir, y, er, eg, eb, 7 / 16);
+      spread(x - dir, y + 1, er, eg, eb, 3 / 16);
+      spread(x, y + 1, er, eg, eb, 5 / 16);
+      spread(x + dir, y + 1, er, eg, eb, 1 / 16);
+    }
+  }
+  return out;
+};
+
+/**
+ * Threshold-matrix dithering (Bayer for ordered, clustered-dot for halftone).
+ */
+const thresholdDither = (cells: Float32Array, cw: number, ch: number, palette: RGB[], nearestIndex: NearestIndex, strength: number, matrix: number[]) => {
+  const out = new Uint8Array(cw * ch);
+  const spread = getPaletteSpread(palette) * strength;
+  for (let y = 0; y < ch; y++) {
+    for (let x = 0; x < cw; x++) {
+      const i = (y * cw + x) * 3;
+      const offset = ((matrix[(y % 4) * 4 + (x % 4)] + 0.5) / 16 - 0.5) * spread;
+      out[y * cw + x] = nearestIndex(cells[i] + offset, cells[i + 1] + offset, cells[i + 2] + offset);
+    }
+  }
+  return out;
+};
+
+/**
+ * Re-assigns every pixel to a palette slot with the chosen dithering algorithm.
+ * Works on a grid of cellPx-sized dots and scales back up, so no printed dot is
+ * smaller than the configured minimum. Returns full-resolution indices.
+ */
+export const ditherImage = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: RGB[],
+  { mode, strength, cellPx, quantizeMode }: DitherOptions
+): Uint8Array => {
+  const cell = Math.max(1, Math.round(cellPx));
+  const { cells, cw, ch } = downsample(data, width, height, cell);
+  const s = Math.max(0, Math.min(1, strength));
+  const nearest = createNearestIndex(palette, quantizeMode);
+
+  let cellIndices: Uint8Array;
+  if (mode === 'floyd-steinberg') cellIndices = floydSteinberg(cells, cw, ch, palette, nearest, s);
+  else if (mode === 'halftone') cellIndices = thresholdDither(cells, cw, ch, palette, nearest, s, CLUSTERED_4);
+  else if (mode === 'ordered') cellIndices = thresholdDither(cells, cw, ch, palette, nearest, s, BAYER_4);
+  else cellIndices = thresholdDither(cells, cw, ch, palette, nearest, 0, BAYER_4);
+
+  const indices = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cell) * cw;
+    for (let x = 0; x < width; x++) indices[y * width + x] = cellIndices[row + Math.floor(x / cell)];
+  }
+  return indices;
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseFilamentLibrary } from './filamentLibrary';
+
+const entry = (id: string, name: string) => ({ id, name, brand: 'Bambu Lab', hex: '#FFFFFF' });
+
+describe('parseFilamentLibrary', () => {
+  it('keeps ids that are free', () => {
+    const filaments = parseFilamentLibrary(JSON.stringify({ filaments: [entry('a', 'White'), entry('b', 'Black')] }));
+    expect(filaments.map(f => f.id)).toEqual(['a', 'b']);
+  });
+
+  it('gives a new id to entries whose id is taken or repeated', () => {
+    const filaments = parseFilamentLibrary(JSON.stringify([entry('a', 'White'), entry('b', 'Black'), entry('b', 'Red')]), ['a']);
+    const ids = filaments.map(f => f.id);
+    expect(ids[1]).toBe('b');
+    expect(ids[0]).not.toBe('a');
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('reports entries that are not objects', () => {
+    expect(() => parseFilamentLibrary('[null]')).toThrow('Entry 1 is not an object');
+  });
+});
@@ -0,0 +1,95 @@
+import { Filament, RGB } from '../types';
+import { FILAMENT_PRESETS } from '../constants';
+import { hexToRgb, rgbToHex, rgbToLab, deltaE2000 } from './colorHelper';
+
+const STORAGE_KEY = 'bambu-bookmark.filaments';
+
+export const createFilamentId = () => `fil_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } => typeof value === 'object' && value !== null;
+
+/**
+ * Validates one imported/stored entry. Throws with a readable message so the UI can show it.
+ */
+const normalizeFilament = (raw: unknown, index: number): Filament => {
+  if (!isRecord(raw)) throw new Error(`Entry ${index + 1} is not an object`);
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) throw new Error(`Entry ${index + 1} is missing a name`);
+  const color = typeof raw.hex === 'string' ? hexToRgb(raw.hex) : null;
+  if (!color) throw new Error(`Entry ${index + 1} ("${name}") has an invalid hex color`);
+  const td = raw.td === undefined || raw.td === null || raw.td === '' ? undefined : Number(raw.td);
+  if (td !== undefined && (!isFinite(td) || td < 0)) throw new Error(`Entry ${index + 1} ("${name}") has an invalid TD value`);
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createFilamentId(),
+    name,
+    brand: typeof raw.brand === 'string' ? raw.brand.trim() : '',
+    hex: rgbToHex(color),
+    td,
+  };
+};
+
+/**
+ * Accepts either a bare array or `{ filaments: [...] }`. Entries whose id is in `takenIds`
+ * or repeats an earlier entry get a fresh one, since slot assignments refer to filaments by id.
+ */
+export const parseFilamentLibrary = (json: string, takenIds: string[] = []): Filament[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const list = Array.isArray(data) ? data : isRecord(data) ? data.filaments : undefined;
+  if (!Array.isArray(list)) throw new Error('Expected an array of filaments');
+  const seen = new Set(takenIds);
+  return list.map((raw: unknown, i) => {
+    const filament = normalizeFilament(raw, i);
+    if (seen.has(filament.id)) filament.id = createFilamentId();
+    seen.add(filament.id);
+    return filament;
+  });
+};
+
+export const serializeFilamentLibrary = (filaments: Filament[]): string =>
+  JSON.stringify({ version: 1, filaments: filaments.map(({ id, name, brand, hex, td }) => ({ id, name, brand, hex, td })) }, null, 2);
+
+export const getDefaultFilaments = (): Filament[] =>
+  FILAMENT_PRESETS.map((p, i) => normalizeFilament(p, i));
+
+export const loadFilamentLibrary = (): Filament[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return parseFilamentLibrary(stored);
+  } catch (e) {
+    console.warn('Ignoring unreadable filament library', e);
+  }
+  return getDefaultFilaments();
+};
+
+export const saveFilamentLibrary = (filaments: Filament[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeFilamentLibrary(filaments));
+  } catch (e) {
+    console.warn('Could not save filament library', e);
+  }
+};
+
+export const getFilamentLabel = (f: Filament) => (f.brand ? `${f.brand} ${f.name}` : f.name);
+
+/**
+ * Closest owned filament to a palette color by CIEDE2000.
+ */
+export const findNearestFilament = (
+  color: RGB,
+  filaments: Filament[]
+): { filament: Filament; deltaE: number } | null => {
+  const target = rgbToLab(color);
+  let best: { filament: Filament; deltaE: number } | null = null;
+  for (const filament of filaments) {
+    const rgb = hexToRgb(filament.hex);
+    if (!rgb) continue;
+    const deltaE = deltaE2000(target, rgbToLab(rgb));
+    if (!best || deltaE < best.deltaE) best = { filament, deltaE };
+  }
+  return best;
+};
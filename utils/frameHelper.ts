@@ -0,0 +1,121 @@
+import { BookmarkSettings } from '../types';
+import { OUTSIDE_INDEX } from '../constants';
+import { getHoleCenter } from './outlineHelper';
+
+// Pattern repeat lengths relative to the frame width, and their lower bound (mm)
+const DASH_PERIOD_RATIO = 4;
+const SCALLOP_PERIOD_RATIO = 2;
+const MIN_PATTERN_PERIOD_MM = 2;
+// Narrowest part of a scallop as a fraction of the frame width
+const SCALLOP_MIN_RATIO = 0.4;
+
+const NO_SEED = 1 << 30;
+
+// Neighbour offsets for the forward and backward propagation passes
+const FORWARD: [number, number][] = [[-1, -1], [0, -1], [1, -1], [-1, 0]];
+const BACKWARD: [number, number][] = [[1, 0], [-1, 1], [0, 1], [1, 1]];
+
+export const getFrameSlot = (settings: BookmarkSettings) =>
+  Math.max(0, Math.min(settings.frameSlot, settings.colorCount - 1));
+
+/**
+ * For every pixel, the nearest pixel outside the outline (off-canvas counts as outside),
+ * by two-pass nearest-seed propagation. Pixels accepted by `ignore` are never seeds.
+ */
+const nearestOutside = (indices: Uint8Array, width: number, height: number, ignore: (x: number, y: number) => boolean) => {
+  const seedX = new Int32Array(width * height).fill(NO_SEED);
+  const seedY = new Int32Array(width * height).fill(NO_SEED);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (indices[i] === OUTSIDE_INDEX && !ignore(x, y)) { seedX[i] = x; seedY[i] = y; }
+    }
+  }
+
+  const relax = (x: number, y: number, offsets: [number, number][]) => {
+    const i = y * width + x;
+    let best = seedX[i] === NO_SEED ? Infinity : (seedX[i] - x) ** 2 + (seedY[i] - y) ** 2;
+    if (best === 0) return;
+    for (const [ox, oy] of offsets) {
+      const nx = x + ox, ny = y + oy;
+      let sx: number, sy: number;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) {
+        sx = nx; sy = ny;
+      } else {
+        const n = ny * width + nx;
+        if (seedX[n] === NO_SEED) continue;
+        sx = seedX[n]; sy = seedY[n];
+      }
+      const d = (sx - x) ** 2 + (sy - y) ** 2;
+      if (d < best) { best = d; seedX[i] = sx; seedY[i] = sy; }
+    }
+  };
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) relax(x, y, FORWARD);
+  for (let y = height - 1; y >= 0; y--) for (let x = width - 1; x >= 0; x--) relax(x, y, BACKWARD);
+  return { seedX, seedY };
+};
+
+/**
+ * Rasterizes the frame band (1 = frame) from the outline already clipped into `indices`,
+ * so the exporters can recompute exactly the same band from their indices. The tassel
+ * hole and its ring are left out; the frame runs along the outer edge only.
+ */
+export const buildFrameMask = (indices: Uint8Array, width: number, height: number, settings: BookmarkSettings): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const scale = settings.widthMm / width;
+  const { frameWidth, frameInset, framePattern } = settings;
+
+  const [holeX, holeY] = getHoleCenter(settings);
+  const ringR = settings.holeDiameter / 2 + settings.holeRingWidth + scale;
+  const nearHole = (x: number, y: number) =>
+    settings.holeEnabled && Math.hypot((x + 0.5) * scale - holeX, (y + 0.5) * scale - holeY) <= ringR;
+
+  const { seedX, seedY } = nearestOutside(indices, width, height, nearHole);
+  const period = Math.max(MIN_PATTERN_PERIOD_MM, frameWidth * (framePattern === 'dashed' ? DASH_PERIOD_RATIO : SCALLOP_PERIOD_RATIO));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (indices[i] === OUTSIDE_INDEX || seedX[i] === NO_SEED || nearHole(x, y)) continue;
+      const dx = x - seedX[i], dy = y - seedY[i];
+      // Seed centers sit half a pixel beyond the edge
+      const depth = (Math.sqrt(dx * dx + dy * dy) - 0.5) * scale - frameInset;
+      if (depth < 0 || depth >= frameWidth) continue;
+      if (framePattern === 'solid') { mask[i] = 1; continue; }
+
+      // Position along the edge: x on horizontal edges, y on vertical ones
+      const along = (Math.abs(dy) >= Math.abs(dx) ? seedX[i] : seedY[i]) * scale;
+      const t = (((along / period) % 1) + 1) % 1;
+      if (framePattern === 'dashed') {
+        if (t < 0.5) mask[i] = 1;
+      } else {
+        const bulge = Math.sqrt(1 - (2 * t - 1) ** 2);
+        if (depth < frameWidth * (SCALLOP_MIN_RATIO + (1 - SCALLOP_MIN_RATIO) * bulge)) mask[i] = 1;
+      }
+    }
+  }
+  return mask;
+};
+
+/**
+ * Paints the frame into indices (in place) in its palette slot.
+ */
+export const applyFrame = (indices: Uint8Array, width: number, height: number, settings: BookmarkSettings): Uint8Array => {
+  if (!settings.frameEnabled) return indices;
+  const slot = getFrameSlot(settings);
+  const mask = buildFrameMask(indices, width, height, settings);
+  for (let i = 0; i < indices.length; i++) if (mask[i]) indices[i] = slot;
+  return indices;
+};
+
+/**
+ * Frame pixels as the exporters see them: inside the band and still in the frame's slot
+ * (layers composited later, such as text, may have painted over parts of it).
+ */
+export const getFramePixels = (indices: Uint8Array, width: number, height: number, settings: BookmarkSettings): Uint8Array | null => {
+  if (!settings.frameEnabled) return null;
+  const slot = getFrameSlot(settings);
+  const mask = buildFrameMask(indices, width, height, settings);
+  for (let i = 0; i < mask.length; i++) if (indices[i] !== slot) mask[i] = 0;
+  return mask;
+};
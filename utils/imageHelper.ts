@@ -1,19 +1,31 @@
-import { RGB } from '../types';
-import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { QuantizeMode, RGB } from '../types';
+import { RES_PPM } from '../constants';
+import { Lab, rgbToLab, labToRgb, deltaE2000 } from './colorHelper';
 
 // --- Image Processing ---
 
+/**
+ * Processing canvas size (pixels) for a bookmark of the given physical size.
+ */
+export const getCanvasSize = (widthMm: number, heightMm: number) => ({
+  width: Math.max(1, Math.round(widthMm * RES_PPM)),
+  height: Math.max(1, Math.round(heightMm * RES_PPM)),
+});
+
 export const getCroppedImg = async (
   imageSrc: string,
-  pixelCrop: { x: number; y: number; width: number; height: number }
+  pixelCrop: { x: number; y: number; width: number; height: number },
+  widthMm: number,
+  heightMm: number
 ): Promise<string> => {
   const image = new Image();
   image.src = imageSrc;
   await new Promise((resolve) => { image.onload = resolve; });
 
+  const { width, height } = getCanvasSize(widthMm, heightMm);
   const canvas = document.createElement('canvas');
-  canvas.width = CANVAS_WIDTH;
-  canvas.height = CANVAS_HEIGHT;
+  canvas.width = width;
+  canvas.height = height;
   const ctx = canvas.getContext('2d');
 
   if (!ctx) throw new Error('No 2d context');
@@ -27,13 +39,30 @@ export const getCroppedImg = async (
     pixelCrop.height,
     0,
     0,
-    CANVAS_WIDTH,
-    CANVAS_HEIGHT
+    width,
+    height
   );
 
   return canvas.toDataURL('image/png');
 };
 
+/**
+ * mulberry32: tiny, fast, seedable PRNG returning floats in [0, 1).
+ * Same seed + same image = same palette, which keeps print runs reproducible.
+ */
+export const createSeededRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
 const getDistanceSq = (c1: RGB, c2: RGB) => {
   return (c1.r - c2.r) ** 2 + (c1.g - c2.g) ** 2 + (c1.b - c2.b) ** 2;
 };
@@ -60,12 +89,12 @@ export const smoothIndices = (
   indices: Uint8Array,
   width: number,
   height: number,
-  passes: number = 1
+  passes: number = 1,
+  k: number = 4
 ): Uint8Array => {
   if (passes <= 0) return indices;
   
   let current = new Uint8Array(indices);
-  const k = 4; // Assuming 4 colors
 
   for (let p = 0; p < passes; p++) {
     const next = new Uint8Array(current.length);
@@ -97,25 +126,96 @@ export const smoothIndices = (
   return current;
 };
 
-export const quantizeImage = (
-  ctx: CanvasRenderingContext2D,
-  k: number = 4
-): { palette: RGB[]; indices: Uint8Array } => {
-  const width = ctx.canvas.width;
-  const height = ctx.canvas.height;
-  const imgData = ctx.getImageData(0, 0, width, height);
-  const data = imgData.data;
-  const pixelCount = width * height;
+/**
+ * Left-right mirror of an index grid (a fresh array). Mirroring twice is the identity.
+ */
+export const mirrorIndices = (indices: Uint8Array, width: number, height: number): Uint8Array => {
+  const mirrored = new Uint8Array(indices.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) mirrored[row + x] = indices[row + width - 1 - x];
+  }
+  return mirrored;
+};
 
-  let centroids: RGB[] = [];
-  const firstIdx = Math.floor(Math.random() * pixelCount);
-  centroids.push({
-    r: data[firstIdx * 4],
-    g: data[firstIdx * 4 + 1],
-    b: data[firstIdx * 4 + 2],
+export type QuantizeResult = { palette: RGB[]; indices: Uint8Array };
+
+export interface QuantizeOptions {
+  lockedColors?: (RGB | null)[];
+  mode?: QuantizeMode;
+  seed?: number;
+}
+
+/**
+ * Splits palette slots into locked and free. Clusters are ordered locked-first,
+ * so cluster j < lockedSlots.length belongs to palette slot lockedSlots[j].
+ */
+const splitSlots = (k: number, lockedColors: (RGB | null)[]) => {
+  const lockedSlots: number[] = [];
+  const freeSlots: number[] = [];
+  for (let slot = 0; slot < k; slot++) (lockedColors[slot] ? lockedSlots : freeSlots).push(slot);
+  return { lockedSlots, freeSlots };
+};
+
+/**
+ * Maps clusters onto palette slots. Locked clusters keep their slot; free clusters
+ * fill the remaining slots by pixel count (so with nothing locked, slot 0 = most common = base).
+ */
+const orderPalette = (
+  assignments: Uint8Array,
+  clusterColors: RGB[],
+  lockedSlots: number[],
+  freeSlots: number[]
+): QuantizeResult => {
+  const k = clusterColors.length;
+  const lockedCount = lockedSlots.length;
+  const pixelCount = assignments.length;
+
+  const clusterCounts = new Array(k).fill(0).map((_, i) => ({ index: i, count: 0 }));
+  for(let i=0; i<pixelCount; i++) clusterCounts[assignments[i]].count++;
+
+  const oldToNew = new Array(k).fill(0);
+  const sortedPalette = new Array(k);
+  lockedSlots.forEach((slot, j) => {
+    oldToNew[j] = slot;
+    sortedPalette[slot] = clusterColors[j];
   });
+  clusterCounts.slice(lockedCount).sort((a, b) => b.count - a.count).forEach((item, n) => {
+    oldToNew[item.index] = freeSlots[n];
+    sortedPalette[freeSlots[n]] = clusterColors[item.index];
+  });
+
+  const finalIndices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) finalIndices[i] = oldToNew[assignments[i]];
+
+  return { palette: sortedPalette, indices: finalIndices };
+};
 
-  for (let c = 1; c < k; c++) {
+/**
+ * sRGB k-means++ with a saturation/extremes-weighted medoid pick, which favours
+ * bold, printable filament-like colors over muddy averages.
+ */
+const quantizeRGB = (
+  data: Uint8ClampedArray,
+  pixelCount: number,
+  k: number,
+  lockedColors: (RGB | null)[],
+  random: () => number
+): QuantizeResult => {
+  const { lockedSlots, freeSlots } = splitSlots(k, lockedColors);
+  const lockedCount = lockedSlots.length;
+
+  let centroids: RGB[] = lockedSlots.map(slot => ({ ...lockedColors[slot]! }));
+  if (centroids.length === 0) {
+    const firstIdx = Math.floor(random() * pixelCount);
+    centroids.push({
+      r: data[firstIdx * 4],
+      g: data[firstIdx * 4 + 1],
+      b: data[firstIdx * 4 + 2],
+    });
+  }
+
+  for (let c = centroids.length; c < k; c++) {
     const dists = new Float32Array(pixelCount);
     let sumDistSq = 0;
     for (let i = 0; i < pixelCount; i++) {
@@ -128,7 +228,7 @@ export const quantizeImage = (
       dists[i] = minDistSq;
       sumDistSq += minDistSq;
     }
-    let target = Math.random() * sumDistSq;
+    let target = random() * sumDistSq;
     let nextCentroidIdx = -1;
     for (let i = 0; i < pixelCount; i++) {
       target -= dists[i];
@@ -157,7 +257,7 @@ export const quantizeImage = (
       sums[bestCluster].r += p.r; sums[bestCluster].g += p.g; sums[bestCluster].b += p.b; sums[bestCluster].count++;
     }
     let changed = false;
-    for (let j = 0; j < k; j++) {
+    for (let j = lockedCount; j < k; j++) {
       if (sums[j].count > 0) {
         const newR = Math.round(sums[j].r / sums[j].count);
         const newG = Math.round(sums[j].g / sums[j].count);
@@ -176,6 +276,7 @@ export const quantizeImage = (
   const WEIGHT = 3000;
   for (let i = 0; i < pixelCount; i++) {
     const clusterIdx = assignments[i];
+    if (clusterIdx < lockedCount) continue;
     const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
     const distSq = getDistanceSq({r,g,b}, centroids[clusterIdx]);
     const saturation = getSaturation(r, g, b);
@@ -187,49 +288,322 @@ export const quantizeImage = (
     }
   }
   
-  const clusterCounts = new Array(k).fill(0).map((_, i) => ({ index: i, count: 0 }));
-  for(let i=0; i<pixelCount; i++) clusterCounts[assignments[i]].count++;
-  clusterCounts.sort((a, b) => b.count - a.count);
+  return orderPalette(assignments, medoids, lockedSlots, freeSlots);
+};
 
-  const oldToNew = new Array(k).fill(0);
-  const sortedPalette = new Array(k);
-  clusterCounts.forEach((item, newIndex) => {
-    oldToNew[item.index] = newIndex;
-    sortedPalette[newIndex] = medoids[item.index];
-  });
+/**
+ * k-means++ in CIELAB (Euclidean, i.e. ΔE76, while iterating) with a final ΔE2000
+ * assignment pass. Palette entries are the Lab cluster means, which keeps skin tones
+ * and pastels from collapsing into grey.
+ */
+const quantizeLab = (
+  data: Uint8ClampedArray,
+  pixelCount: number,
+  k: number,
+  lockedColors: (RGB | null)[],
+  random: () => number
+): QuantizeResult => {
+  const { lockedSlots, freeSlots } = splitSlots(k, lockedColors);
+  const lockedCount = lockedSlots.length;
 
-  const finalIndices = new Uint8Array(pixelCount);
-  for (let i = 0; i < pixelCount; i++) finalIndices[i] = oldToNew[assignments[i]];
+  const labs = new Float32Array(pixelCount * 3);
+  const labCache = new Map<number, Lab>();
+  for (let i = 0; i < pixelCount; i++) {
+    const key = (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2];
+    let lab = labCache.get(key);
+    if (!lab) {
+      lab = rgbToLab({ r: data[i * 4], g: data[i * 4 + 1], b: data[i * 4 + 2] });
+      labCache.set(key, lab);
+    }
+    labs[i * 3] = lab.l; labs[i * 3 + 1] = lab.a; labs[i * 3 + 2] = lab.b;
+  }
+  const labDistSq = (i: number, c: Lab) =>
+    (labs[i * 3] - c.l) ** 2 + (labs[i * 3 + 1] - c.a) ** 2 + (labs[i * 3 + 2] - c.b) ** 2;
+  const labAt = (i: number): Lab => ({ l: labs[i * 3], a: labs[i * 3 + 1], b: labs[i * 3 + 2] });
 
-  return { palette: sortedPalette, indices: finalIndices };
+  const centroids: Lab[] = lockedSlots.map(slot => rgbToLab(lockedColors[slot]!));
+  if (centroids.length === 0) centroids.push(labAt(Math.floor(random() * pixelCount)));
+
+  const dists = new Float32Array(pixelCount);
+  for (let c = centroids.length; c < k; c++) {
+    let sumDistSq = 0;
+    for (let i = 0; i < pixelCount; i++) {
+      let minDistSq = Infinity;
+      for (const centroid of centroids) {
+        const d = labDistSq(i, centroid);
+        if (d < minDistSq) minDistSq = d;
+      }
+      dists[i] = minDistSq;
+      sumDistSq += minDistSq;
+    }
+    let target = random() * sumDistSq;
+    let nextCentroidIdx = pixelCount - 1;
+    for (let i = 0; i < pixelCount; i++) {
+      target -= dists[i];
+      if (target <= 0) {
+        nextCentroidIdx = i;
+        break;
+      }
+    }
+    centroids.push(labAt(nextCentroidIdx));
+  }
+
+  const assignments = new Uint8Array(pixelCount);
+  const iterations = 15;
+  for (let iter = 0; iter < iterations; iter++) {
+    const sums = Array(k).fill(0).map(() => ({ l: 0, a: 0, b: 0, count: 0 }));
+    for (let i = 0; i < pixelCount; i++) {
+      let minDist = Infinity;
+      let bestCluster = 0;
+      for (let j = 0; j < k; j++) {
+        const dist = labDistSq(i, centroids[j]);
+        if (dist < minDist) { minDist = dist; bestCluster = j; }
+      }
+      assignments[i] = bestCluster;
+      sums[bestCluster].l += labs[i * 3]; sums[bestCluster].a += labs[i * 3 + 1]; sums[bestCluster].b += labs[i * 3 + 2]; sums[bestCluster].count++;
+    }
+    let moved = 0;
+    for (let j = lockedCount; j < k; j++) {
+      if (sums[j].count > 0) {
+        const next = { l: sums[j].l / sums[j].count, a: sums[j].a / sums[j].count, b: sums[j].b / sums[j].count };
+        moved = Math.max(moved, Math.sqrt((next.l - centroids[j].l) ** 2 + (next.a - centroids[j].a) ** 2 + (next.b - centroids[j].b) ** 2));
+        centroids[j] = next;
+      }
+    }
+    if (moved < 0.5) break;
+  }
+
+  // Final assignment by ΔE2000, cached per source color since photos repeat colors heavily
+  const assignCache = new Map<number, number>();
+  for (let i = 0; i < pixelCount; i++) {
+    const key = (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2];
+    let best = assignCache.get(key);
+    if (best === undefined) {
+      const lab = labAt(i);
+      let minDist = Infinity;
+      best = 0;
+      for (let j = 0; j < k; j++) {
+        const dist = deltaE2000(lab, centroids[j]);
+        if (dist < minDist) { minDist = dist; best = j; }
+      }
+      assignCache.set(key, best);
+    }
+    assignments[i] = best;
+  }
+
+  const clusterColors = centroids.map((c, j) => (j < lockedCount ? { ...lockedColors[lockedSlots[j]]! } : labToRgb(c)));
+  return orderPalette(assignments, clusterColors, lockedSlots, freeSlots);
+};
+
+/**
+ * k-means++ quantization of raw RGBA pixels. `lockedColors[slot]` pins that palette
+ * slot to an exact filament color: locked centroids never move, and the free clusters
+ * are fitted around them so every pixel maps to a slot you actually own. Seeding is
+ * driven by `seed`, so results are deterministic; omit it for a random roll.
+ * DOM-free, so it runs in workers.
+ */
+export const quantizePixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  k: number = 4,
+  { lockedColors = [], mode = 'rgb', seed = randomSeed() }: QuantizeOptions = {}
+): QuantizeResult => {
+  const pixelCount = width * height;
+  const random = createSeededRandom(seed);
+
+  return mode === 'lab'
+    ? quantizeLab(data, pixelCount, k, lockedColors, random)
+    : quantizeRGB(data, pixelCount, k, lockedColors, random);
+};
+
+export const quantizeImage = (
+  ctx: CanvasRenderingContext2D,
+  k: number = 4,
+  options: QuantizeOptions = {}
+): QuantizeResult => {
+  const width = ctx.canvas.width;
+  const height = ctx.canvas.height;
+  const imgData = ctx.getImageData(0, 0, width, height);
+  return quantizePixels(imgData.data, width, height, k, options);
+};
+
+/**
+ * RGBA of a design in its palette, transparent outside the outline.
+ */
+export const getPreviewPixels = (indices: Uint8Array, palette: RGB[]): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(indices.length * 4);
+  for (let i = 0; i < indices.length; i++) {
+    const color = palette[indices[i]];
+    if (!color) continue; // outside the outline: leave transparent
+    data[i * 4] = color.r; data[i * 4 + 1] = color.g; data[i * 4 + 2] = color.b; data[i * 4 + 3] = 255;
+  }
+  return data;
+};
+
+/**
+ * RGBA of a relief as it looks held up to the light: the thicker, the darker.
+ */
+export const getReliefPreviewPixels = (thickness: Float32Array, min: number, max: number): Uint8ClampedArray => {
+  const data = new Uint8ClampedArray(thickness.length * 4);
+  const span = max > min ? max - min : 1;
+  for (let i = 0; i < thickness.length; i++) {
+    if (!(thickness[i] > 0)) continue; // outside the outline: leave transparent
+    const shade = 255 * Math.min(1, Math.max(0, (max - thickness[i]) / span));
+    data[i * 4] = shade; data[i * 4 + 1] = shade; data[i * 4 + 2] = shade; data[i * 4 + 3] = 255;
+  }
+  return data;
+};
+
+const putPixels = (canvas: HTMLCanvasElement, pixels: Uint8ClampedArray) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const imgData = ctx.createImageData(canvas.width, canvas.height);
+  imgData.data.set(pixels.subarray(0, imgData.data.length));
+  ctx.putImageData(imgData, 0, 0);
 };
 
 export const drawQuantizedPreview = (
   canvas: HTMLCanvasElement,
   indices: Uint8Array,
   palette: RGB[]
+) => putPixels(canvas, getPreviewPixels(indices, palette));
+
+export const drawReliefPreview = (
+  canvas: HTMLCanvasElement,
+  thickness: Float32Array,
+  min: number,
+  max: number
+) => putPixels(canvas, getReliefPreviewPixels(thickness, min, max));
+
+/**
+ * Paints printability issues on a transparent canvas laid over the preview: thin features
+ * in red, small islands in magenta.
+ */
+export const drawIssueOverlay = (
+  canvas: HTMLCanvasElement,
+  thin: Uint8Array,
+  islands: Uint8Array
 ) => {
   const ctx = canvas.getContext('2d');
   if (!ctx) return;
-  const width = canvas.width, height = canvas.height;
-  const imgData = ctx.createImageData(width, height);
+  const imgData = ctx.createImageData(canvas.width, canvas.height);
   const data = imgData.data;
-  for (let i = 0; i < indices.length; i++) {
-    const color = palette[indices[i]];
-    data[i * 4] = color.r; data[i * 4 + 1] = color.g; data[i * 4 + 2] = color.b; data[i * 4 + 3] = 255;
+  for (let i = 0; i < thin.length; i++) {
+    if (islands[i]) { data[i * 4] = 255; data[i * 4 + 2] = 255; data[i * 4 + 3] = 220; }
+    else if (thin[i]) { data[i * 4] = 255; data[i * 4 + 3] = 200; }
   }
   ctx.putImageData(imgData, 0, 0);
 };
 
-export const resizeImageToCanvas = (img: HTMLImageElement | HTMLCanvasElement): HTMLCanvasElement => {
+/**
+ * Stretches a silhouette image over the processing grid and thresholds it (1 = keep).
+ * Images with transparency keep their opaque pixels; opaque images keep dark pixels.
+ */
+export const loadSilhouetteMask = (src: string, width: number, height: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('No 2d context'));
+      ctx.drawImage(img, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+      const mask = new Uint8Array(width * height);
+      let hasAlpha = false;
+      for (let i = 0; i < mask.length && !hasAlpha; i++) hasAlpha = data[i * 4 + 3] < 128;
+      for (let i = 0; i < mask.length; i++) {
+        const luma = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+        mask[i] = (hasAlpha ? data[i * 4 + 3] >= 128 : luma < 128) ? 1 : 0;
+      }
+      resolve(mask);
+    };
+    img.onerror = reject;
+    img.src = src;
+  });
+
+/**
+ * Largest centered crop with the bookmark's aspect ratio, where the cropper starts out.
+ */
+export const getCenterCrop = (imageWidth: number, imageHeight: number, widthMm: number, heightMm: number) => {
+  const aspect = widthMm / heightMm;
+  const width = Math.min(imageWidth, imageHeight * aspect);
+  const height = width / aspect;
+  return { x: (imageWidth - width) / 2, y: (imageHeight - height) / 2, width, height };
+};
+
+/**
+ * Canvas-free counterpart of getCroppedImg + loadImagePixels: area-averages the crop of an
+ * RGBA image onto a width x height grid. Colors are weighted by alpha so transparent
+ * surroundings do not darken the edges.
+ */
+export const resamplePixels = (
+  data: Uint8ClampedArray,
+  srcWidth: number,
+  srcHeight: number,
+  crop: { x: number; y: number; width: number; height: number },
+  width: number,
+  height: number
+): Uint8ClampedArray => {
+  const out = new Uint8ClampedArray(width * height * 4);
+  const stepX = crop.width / width, stepY = crop.height / height;
+  for (let y = 0; y < height; y++) {
+    const y0 = crop.y + y * stepY, y1 = y0 + stepY;
+    for (let x = 0; x < width; x++) {
+      const x0 = crop.x + x * stepX, x1 = x0 + stepX;
+      let r = 0, g = 0, b = 0, a = 0, area = 0;
+      for (let sy = Math.floor(y0); sy < y1; sy++) {
+        const wy = Math.min(y1, sy + 1) - Math.max(y0, sy);
+        const row = Math.min(srcHeight - 1, Math.max(0, sy)) * srcWidth;
+        for (let sx = Math.floor(x0); sx < x1; sx++) {
+          const w = wy * (Math.min(x1, sx + 1) - Math.max(x0, sx));
+          const i = (row + Math.min(srcWidth - 1, Math.max(0, sx))) * 4;
+          const alpha = data[i + 3] * w;
+          r += data[i] * alpha; g += data[i + 1] * alpha; b += data[i + 2] * alpha;
+          a += alpha; area += w;
+        }
+      }
+      const o = (y * width + x) * 4;
+      if (a > 0) { out[o] = r / a; out[o + 1] = g / a; out[o + 2] = b / a; }
+      out[o + 3] = area > 0 ? a / area : 0;
+    }
+  }
+  return out;
+};
+
+/**
+ * Decodes an image and resizes it onto the processing grid for the given size.
+ */
+export const loadImagePixels = (src: string, widthMm: number, heightMm: number): Promise<{ data: Uint8ClampedArray; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = resizeImageToCanvas(img, widthMm, heightMm);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error('No 2d context'));
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      resolve({ data: imageData.data, width: canvas.width, height: canvas.height });
+    };
+    img.onerror = reject;
+    img.src = src;
+  });
+
+export const resizeImageToCanvas = (
+  img: HTMLImageElement | HTMLCanvasElement,
+  widthMm: number,
+  heightMm: number
+): HTMLCanvasElement => {
+    const { width, height } = getCanvasSize(widthMm, heightMm);
     const canvas = document.createElement('canvas');
-    canvas.width = CANVAS_WIDTH;
-    canvas.height = CANVAS_HEIGHT;
+    canvas.width = width;
+    canvas.height = height;
     const ctx = canvas.getContext('2d');
     if(ctx) {
         ctx.imageSmoothingEnabled = true;
         ctx.imageSmoothingQuality = 'high';
-        ctx.drawImage(img, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.drawImage(img, 0, 0, width, height);
     }
     return canvas;
 }
\ No newline at end of file
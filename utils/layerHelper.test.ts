@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { BookmarkSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { getBackDepth, getPrintSettings } from './layerHelper';
+
+const withBase = (baseHeight: number, backDepth: number): BookmarkSettings => ({ ...DEFAULT_SETTINGS, baseHeight, backDepth });
+
+describe('getPrintSettings back side', () => {
+  it('snaps the back depth down onto the layer grid within half the base', () => {
+    const { settings, adjustments } = getPrintSettings(withBase(1, 0.7), true);
+    expect(getBackDepth(settings)).toBe(0.4);
+    expect(adjustments).toContainEqual({ label: 'Back side', requested: 0.7, actual: 0.4 });
+  });
+
+  it('drops the back side when half the base is thinner than the first layer', () => {
+    const { settings, adjustments } = getPrintSettings(withBase(0.2, 0.4), true);
+    expect(getBackDepth(settings)).toBe(0);
+    expect(adjustments).toContainEqual({ label: 'Back side (base too thin, dropped)', requested: 0.4, actual: 0 });
+  });
+
+  it('never reports the back side of a single-sided design', () => {
+    const { adjustments } = getPrintSettings(withBase(0.2, 0.4));
+    expect(adjustments.map(a => a.label)).not.toContain('Back side (base too thin, dropped)');
+  });
+});
@@ -0,0 +1,75 @@
+import { BookmarkSettings, PrintProfile } from '../types';
+
+// A height that moved by more than this when snapped is reported (mm)
+const SNAP_TOLERANCE = 0.001;
+
+export interface LayerAdjustment {
+  label: string;
+  requested: number; // mm
+  actual: number; // mm
+}
+
+// Rounds away float noise such as 0.6000000000000001
+const roundMm = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Nearest layer boundary to z (mm from the bed), never below the first layer.
+ */
+export const snapToLayer = (z: number, profile: PrintProfile) => {
+  const layers = Math.max(0, Math.round((z - profile.firstLayerHeight) / profile.layerHeight));
+  return roundMm(profile.firstLayerHeight + layers * profile.layerHeight);
+};
+
+/**
+ * Highest layer boundary at or below z, never below the first layer.
+ */
+const snapDownToLayer = (z: number, profile: PrintProfile) => {
+  const layers = Math.max(0, Math.floor((z - profile.firstLayerHeight) / profile.layerHeight + 1e-6));
+  return roundMm(profile.firstLayerHeight + layers * profile.layerHeight);
+};
+
+/**
+ * Depth of the back artwork in a double-sided bookmark, sunk into the bottom of the base
+ * plate. Capped at half the plate so the front colors always have solid base under them;
+ * 0 when getPrintSettings found no room for a whole layer there.
+ */
+export const getBackDepth = (settings: BookmarkSettings) => Math.min(settings.backDepth, settings.baseHeight / 2);
+
+/**
+ * The settings the exporters actually build: every height moved onto a layer boundary of
+ * the print profile, and in Flat mode every color reduced to a single layer. Returns the
+ * heights that could not be represented as requested so the UI can say so. A relief laid
+ * over the colors needs a flat top to rest on, so there colors and frame are one layer too.
+ */
+export const getPrintSettings = (settings: BookmarkSettings, doubleSided = false): { settings: BookmarkSettings; adjustments: LayerAdjustment[] } => {
+  const profile = settings.printProfile;
+  const adjustments: LayerAdjustment[] = [];
+  const note = (label: string, requested: number, actual: number) => {
+    if (Math.abs(requested - actual) > SNAP_TOLERANCE) adjustments.push({ label, requested, actual });
+  };
+
+  const baseHeight = snapToLayer(settings.baseHeight, profile);
+  note('Base plate', settings.baseHeight, baseHeight);
+
+  // Thickness above the base, rounded so the top lands on a layer boundary
+  const snapAboveBase = (label: string, requested: number) => {
+    const actual = roundMm(Math.max(baseHeight + profile.layerHeight, snapToLayer(baseHeight + requested, profile)) - baseHeight);
+    note(label, requested, actual);
+    return actual;
+  };
+
+  const overlay = settings.reliefMode === 'overlay' && settings.stackMode === 'palette';
+  const layerHeights = settings.isTactile && !overlay
+    ? settings.layerHeights.map((h, c) => (c < settings.colorCount ? snapAboveBase(`Slot ${c + 1}`, h) : h))
+    : settings.layerHeights.map(() => profile.layerHeight);
+  const frameHeight = overlay ? profile.layerHeight : settings.frameEnabled ? snapAboveBase('Frame', settings.frameHeight) : settings.frameHeight;
+
+  // Capped before snapping; with less than one layer left under half the base there is
+  // no room for a back side and it is dropped (depth 0)
+  const backRoom = Math.min(settings.backDepth, baseHeight / 2);
+  const backDepth = backRoom + SNAP_TOLERANCE >= profile.firstLayerHeight ? snapDownToLayer(backRoom, profile) : 0;
+  const snapped = { ...settings, baseHeight, layerHeights, frameHeight, backDepth };
+  if (doubleSided) note(backDepth > 0 ? 'Back side' : 'Back side (base too thin, dropped)', settings.backDepth, backDepth);
+
+  return { settings: snapped, adjustments };
+};
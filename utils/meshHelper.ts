@@ -0,0 +1,401 @@
+import { Point } from '../types';
+
+// --- Types ---
+
+export interface MeshData {
+  vertices: number[]; // Flat array [x,y,z, x,y,z...]
+  triangles: number[]; // Flat array of indices [v1,v2,v3...]
+}
+
+// MeshData as typed arrays, cheap to transfer out of the worker
+export interface MeshBuffers {
+  vertices: Float32Array;
+  triangles: Uint32Array;
+}
+
+export const toMeshBuffers = (mesh: MeshData): MeshBuffers => ({
+  vertices: new Float32Array(mesh.vertices),
+  triangles: new Uint32Array(mesh.triangles),
+});
+
+/**
+ * Both meshes' shells in one mesh.
+ */
+export const mergeMeshes = (a: MeshData, b: MeshData): MeshData => {
+  const offset = a.vertices.length / 3;
+  return { vertices: a.vertices.concat(b.vertices), triangles: a.triangles.concat(b.triangles.map(t => t + offset)) };
+};
+
+export class MeshBuilder {
+  private vertices: number[] = [];
+  private triangles: number[] = [];
+  private vertexMap = new Map<string, number>();
+
+  /**
+   * `tag` separates coincident vertices that must stay topologically distinct
+   * (e.g. where two regions touch only at a corner).
+   */
+  addVertex(x: number, y: number, z: number, tag?: string): number {
+    const key = `${x.toFixed(3)},${y.toFixed(3)},${z.toFixed(3)}${tag ? `#${tag}` : ''}`;
+    const existing = this.vertexMap.get(key);
+    if (existing !== undefined) return existing;
+
+    const index = this.vertices.length / 3;
+    this.vertices.push(x, y, z);
+    this.vertexMap.set(key, index);
+    return index;
+  }
+
+  /**
+   * Adds a planar convex polygon given counter-clockwise (seen from outside).
+   * Quads become two triangles; polygons with extra edge vertices are fanned from
+   * their centroid, which never yields degenerate slivers from collinear points.
+   */
+  addPolygon(points: [number, number, number][], tags: (string | undefined)[] = []) {
+    const ids = points.map(([x, y, z], i) => this.addVertex(x, y, z, tags[i]));
+    if (ids.length === 3) {
+      this.addTriangle(ids[0], ids[1], ids[2]);
+      return;
+    }
+    if (ids.length === 4) {
+      this.addTriangle(ids[0], ids[1], ids[2]);
+      this.addTriangle(ids[0], ids[2], ids[3]);
+      return;
+    }
+    let cx = 0, cy = 0, cz = 0;
+    for (const [x, y, z] of points) { cx += x; cy += y; cz += z; }
+    const center = this.vertices.length / 3;
+    this.vertices.push(cx / points.length, cy / points.length, cz / points.length);
+    for (let i = 0; i < ids.length; i++) {
+      this.addTriangle(center, ids[i], ids[(i + 1) % ids.length]);
+    }
+  }
+
+  // Triangles whose corners merged into one vertex are dropped; their edges cancel out
+  addTriangle(a: number, b: number, c: number) {
+    if (a === b || b === c || a === c) return;
+    this.triangles.push(a, b, c);
+  }
+
+  getData(): MeshData {
+    return { vertices: this.vertices, triangles: this.triangles };
+  }
+}
+
+// --- Column Solid Mesher ---
+
+// A grid-space point: grid line x, grid line y, index into the z-level table
+type GridPoint = [number, number, number];
+
+// A face: CCW corners plus a resolver for the pixel whose solid it bounds at a grid point
+interface GridFace {
+  corners: GridPoint[];
+  owner: (gx: number, gy: number) => [number, number];
+}
+
+/**
+ * Where solids touch only diagonally at a grid point (a "pinch"), the vertex is split per
+ * owning pixel so each side gets its own edges. Undefined when no split is needed.
+ */
+const getPinchTag = (solid: (x: number, y: number) => boolean, gx: number, gy: number, owner: [number, number]) => {
+  const quad = [[gx - 1, gy - 1], [gx, gy - 1], [gx, gy], [gx - 1, gy]]; // NW, NE, SE, SW (cyclic)
+  const present = quad.map(([x, y]) => solid(x, y));
+  const count = present.filter(Boolean).length;
+  const diagonal = count === 2 && present[0] === present[2];
+  if (!diagonal) return undefined;
+  return `${quad.findIndex(([x, y]) => x === owner[0] && y === owner[1])}`;
+};
+
+/**
+ * Greedy maximal-rectangle cover of every pixel whose level matches `level`.
+ */
+const greedyRects = (
+  levels: Uint16Array,
+  width: number,
+  height: number,
+  match: (level: number) => boolean
+): [number, number, number, number][] => {
+  const rects: [number, number, number, number][] = [];
+  const used = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (used[i] || !match(levels[i])) continue;
+      const level = levels[i];
+      let x1 = x + 1;
+      while (x1 < width && !used[y * width + x1] && levels[y * width + x1] === level) x1++;
+      let y1 = y + 1;
+      grow: while (y1 < height) {
+        for (let xx = x; xx < x1; xx++) {
+          const j = y1 * width + xx;
+          if (used[j] || levels[j] !== level) break grow;
+        }
+        y1++;
+      }
+      for (let yy = y; yy < y1; yy++) used.fill(1, yy * width + x, yy * width + x1);
+      rects.push([x, y, x1, y1]);
+    }
+  }
+  return rects;
+};
+
+/**
+ * Builds a single watertight, edge-manifold shell for a set of pixel columns that share
+ * a common bottom (zLevels[0]) and each rise to zLevels[levels[pixel]]; level 0 = empty.
+ * zLevels must be ascending.
+ *
+ * Caps are greedy rectangles per level and walls are maximal runs per grid line, so the
+ * triangle count follows region complexity rather than pixel count. Every face is split at
+ * any other face's corner that lies on its edges, so there are no T-junctions and every
+ * edge is shared by exactly two triangles.
+ */
+export const buildColumnMesh = (
+  levels: Uint16Array,
+  zLevels: number[],
+  width: number,
+  height: number,
+  scaleX: number,
+  scaleY: number
+): MeshData => {
+  const levelAt = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : levels[y * width + x]);
+  const key = (gx: number, gy: number, li: number) => (li * (height + 1) + gy) * (width + 1) + gx;
+
+  const faces: GridFace[] = [];
+  const corners = new Set<number>();
+  const addFace = (points: GridPoint[], owner: GridFace['owner']) => {
+    faces.push({ corners: points, owner });
+    for (const [gx, gy, li] of points) corners.add(key(gx, gy, li));
+  };
+
+  // Top caps, CCW seen from +z (mesh y runs opposite to grid y)
+  for (let li = 1; li < zLevels.length; li++) {
+    for (const [x0, y0, x1, y1] of greedyRects(levels, width, height, l => l === li)) {
+      addFace([[x0, y1, li], [x1, y1, li], [x1, y0, li], [x0, y0, li]], (gx, gy) => [Math.min(gx, x1 - 1), Math.min(gy, y1 - 1)]);
+    }
+  }
+  // Bottom cap over the whole footprint, CCW seen from -z
+  for (const [x0, y0, x1, y1] of greedyRects(levels, width, height, l => l > 0)) {
+    addFace([[x0, y0, 0], [x1, y0, 0], [x1, y1, 0], [x0, y1, 0]], (gx, gy) => [Math.min(gx, x1 - 1), Math.min(gy, y1 - 1)]);
+  }
+
+  // Walls on horizontal grid lines: pixel row gy-1 ("a") vs row gy ("b")
+  for (let gy = 0; gy <= height; gy++) {
+    let x = 0;
+    while (x < width) {
+      const a = levelAt(x, gy - 1), b = levelAt(x, gy);
+      if (a === b) { x++; continue; }
+      let x1 = x + 1;
+      while (x1 < width && levelAt(x1, gy - 1) === a && levelAt(x1, gy) === b) x1++;
+      const lo = Math.min(a, b), hi = Math.max(a, b);
+      const row = a > b ? gy - 1 : gy, end = x1;
+      const owner = (gx: number): [number, number] => [Math.min(gx, end - 1), row];
+      if (a > b) addFace([[x, gy, lo], [x1, gy, lo], [x1, gy, hi], [x, gy, hi]], owner); // faces -y
+      else addFace([[x1, gy, lo], [x, gy, lo], [x, gy, hi], [x1, gy, hi]], owner); // faces +y
+      x = x1;
+    }
+  }
+  // Walls on vertical grid lines: pixel column gx-1 ("a") vs column gx ("b")
+  for (let gx = 0; gx <= width; gx++) {
+    let y = 0;
+    while (y < height) {
+      const a = levelAt(gx - 1, y), b = levelAt(gx, y);
+      if (a === b) { y++; continue; }
+      let y1 = y + 1;
+      while (y1 < height && levelAt(gx - 1, y1) === a && levelAt(gx, y1) === b) y1++;
+      const lo = Math.min(a, b), hi = Math.max(a, b);
+      const col = a > b ? gx - 1 : gx, end = y1;
+      const owner = (_: number, gy: number): [number, number] => [col, Math.min(gy, end - 1)];
+      if (a > b) addFace([[gx, y1, lo], [gx, y, lo], [gx, y, hi], [gx, y1, hi]], owner); // faces +x
+      else addFace([[gx, y, lo], [gx, y1, lo], [gx, y1, hi], [gx, y, hi]], owner); // faces -x
+      y = y1;
+    }
+  }
+
+  const pinchTag = (gx: number, gy: number, li: number, owner: [number, number]) =>
+    getPinchTag((x, y) => { const l = levelAt(x, y); return l > 0 && l >= li; }, gx, gy, owner);
+
+  // Emit faces, inserting every registered corner that lies along each edge
+  const builder = new MeshBuilder();
+  const toMesh = ([gx, gy, li]: GridPoint): [number, number, number] => [gx * scaleX, (height - gy) * scaleY, zLevels[li]];
+  for (const face of faces) {
+    const polygon: [number, number, number][] = [];
+    const tags: (string | undefined)[] = [];
+    const push = (p: GridPoint) => {
+      polygon.push(toMesh(p));
+      tags.push(pinchTag(p[0], p[1], p[2], face.owner(p[0], p[1])));
+    };
+    for (let i = 0; i < face.corners.length; i++) {
+      const from = face.corners[i], to = face.corners[(i + 1) % face.corners.length];
+      push(from);
+      const axis = from[0] !== to[0] ? 0 : from[1] !== to[1] ? 1 : 2;
+      const step = to[axis] > from[axis] ? 1 : -1;
+      const p: GridPoint = [from[0], from[1], from[2]];
+      for (let v = from[axis] + step; v !== to[axis]; v += step) {
+        p[axis] = v;
+        if (corners.has(key(p[0], p[1], p[2]))) push([p[0], p[1], p[2]]);
+      }
+    }
+    builder.addPolygon(polygon, tags);
+  }
+  return builder.getData();
+};
+
+// --- Polygon Triangulation ---
+
+const EPSILON = 1e-12;
+
+const cross = (o: Point, a: Point, b: Point) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+const samePoint = (a: Point, b: Point) => a[0] === b[0] && a[1] === b[1];
+
+// Inclusive of the edges, so no diagonal ever passes through another vertex
+const inTriangle = (a: Point, b: Point, c: Point, p: Point) =>
+  cross(a, b, p) >= -EPSILON && cross(b, c, p) >= -EPSILON && cross(c, a, p) >= -EPSILON;
+
+/**
+ * Splices a hole into the polygon through a bridge from the hole's rightmost vertex to a
+ * visible polygon vertex, found by casting a ray towards +x.
+ */
+const bridgeHole = (poly: number[], hole: number[], pts: Point[]): number[] => {
+  let m = 0;
+  for (let i = 1; i < hole.length; i++) if (pts[hole[i]][0] > pts[hole[m]][0]) m = i;
+  const M = pts[hole[m]];
+  const n = poly.length;
+
+  // Nearest edge hit by the ray; counter-clockwise edges facing M run upwards
+  let hitX = Infinity, bridge = -1;
+  for (let i = 0; i < n; i++) {
+    const a = pts[poly[i]], b = pts[poly[(i + 1) % n]];
+    if (!(a[1] <= M[1] && M[1] <= b[1] && a[1] < b[1])) continue;
+    const x = a[0] + ((M[1] - a[1]) * (b[0] - a[0])) / (b[1] - a[1]);
+    if (x < M[0] || x >= hitX) continue;
+    hitX = x;
+    bridge = a[1] === M[1] ? i : b[1] === M[1] ? (i + 1) % n : a[0] > b[0] ? i : (i + 1) % n;
+  }
+  if (bridge === -1) return poly;
+
+  // A vertex inside the triangle (M, hit, candidate) would block the bridge; the one
+  // closest in angle to the ray is always visible
+  const hit: Point = [hitX, M[1]];
+  const candidate = pts[poly[bridge]];
+  const tanOf = (p: Point) => Math.abs(p[1] - M[1]) / (p[0] - M[0]);
+  const inside = (p: Point) => {
+    const flip = cross(M, hit, candidate) < 0;
+    const [b, c] = flip ? [candidate, hit] : [hit, candidate];
+    return inTriangle(M, b, c, p);
+  };
+  let bestTan = tanOf(candidate), bestDist = Math.hypot(candidate[0] - M[0], candidate[1] - M[1]);
+  for (let i = 0; i < n; i++) {
+    const p = pts[poly[i]];
+    if (i === bridge || p[0] <= M[0] || samePoint(p, candidate) || !inside(p)) continue;
+    const t = tanOf(p), d = Math.hypot(p[0] - M[0], p[1] - M[1]);
+    if (t < bestTan || (t === bestTan && d < bestDist)) { bridge = i; bestTan = t; bestDist = d; }
+  }
+
+  // Earlier bridges duplicate vertices; pick the copy whose interior wedge faces M
+  const target = pts[poly[bridge]];
+  for (let i = 0; i < n; i++) {
+    if (!samePoint(pts[poly[i]], target)) continue;
+    const prev = pts[poly[(i - 1 + n) % n]], next = pts[poly[(i + 1) % n]];
+    const left = cross(prev, target, M) >= 0, right = cross(target, next, M) >= 0;
+    if (cross(prev, target, next) >= 0 ? left && right : left || right) { bridge = i; break; }
+  }
+
+  const spliced = [...hole.slice(m), ...hole.slice(0, m), hole[m]];
+  return [...poly.slice(0, bridge + 1), ...spliced, poly[bridge], ...poly.slice(bridge + 1)];
+};
+
+/**
+ * Ear clipping over a simple polygon given as positions into `pts`.
+ */
+const clipEars = (poly: number[], pts: Point[]): number[] => {
+  const n = poly.length;
+  if (n < 3) return [];
+  const prev = new Int32Array(n), next = new Int32Array(n);
+  for (let i = 0; i < n; i++) { prev[i] = (i - 1 + n) % n; next[i] = (i + 1) % n; }
+  const at = (i: number) => pts[poly[i]];
+  const triangles: number[] = [];
+
+  const isEar = (i: number) => {
+    const a = at(prev[i]), b = at(i), c = at(next[i]);
+    if (cross(a, b, c) <= EPSILON) return false;
+    for (let j = next[next[i]]; j !== prev[i]; j = next[j]) {
+      const p = at(j);
+      if (samePoint(p, a) || samePoint(p, b) || samePoint(p, c)) continue;
+      if (inTriangle(a, b, c, p)) return false;
+    }
+    return true;
+  };
+  const clip = (i: number) => {
+    triangles.push(poly[prev[i]], poly[i], poly[next[i]]);
+    next[prev[i]] = next[i];
+    prev[next[i]] = prev[i];
+  };
+
+  let remaining = n, cur = 0, misses = 0;
+  while (remaining > 3) {
+    if (isEar(cur)) {
+      const back = prev[cur];
+      clip(cur);
+      remaining--;
+      cur = back;
+      misses = 0;
+      continue;
+    }
+    cur = next[cur];
+    if (++misses < remaining) continue;
+    // No clean ear left (degenerate input): clip the most convex corner so we terminate
+    let best = cur, bestCross = -Infinity, j = cur;
+    do {
+      const c = cross(at(prev[j]), at(j), at(next[j]));
+      if (c > bestCross) { bestCross = c; best = j; }
+      j = next[j];
+    } while (j !== cur);
+    cur = prev[best];
+    clip(best);
+    remaining--;
+    misses = 0;
+  }
+  triangles.push(poly[prev[cur]], poly[cur], poly[next[cur]]);
+  return triangles;
+};
+
+/**
+ * Triangulates a polygon given as [outer, ...holes] (outer counter-clockwise, holes
+ * clockwise). Returns index triples into the concatenated rings, counter-clockwise.
+ * Every ring vertex is kept, so caps stay conforming with walls built on the same rings.
+ */
+export const triangulatePolygon = (rings: Point[][]): number[] => {
+  const pts: Point[] = [];
+  const ids = rings.map(ring => ring.map(p => pts.push(p) - 1));
+  const maxX = (ring: number[]) => Math.max(...ring.map(i => pts[i][0]));
+  const holes = ids.slice(1).sort((a, b) => maxX(b) - maxX(a));
+  let poly = ids[0];
+  for (const hole of holes) poly = bridgeHole(poly, hole, pts);
+  return clipEars(poly, pts);
+};
+
+// --- Extrusion ---
+
+/**
+ * Adds a flat cap at height z over a polygon ([outer, ...holes] in mesh x/y).
+ */
+export const addPolygonCap = (builder: MeshBuilder, rings: Point[][], z: number, facingUp: boolean) => {
+  const points = rings.flat();
+  const triangles = triangulatePolygon(rings);
+  for (let i = 0; i < triangles.length; i += 3) {
+    const [a, b, c] = [triangles[i], triangles[i + 1], triangles[i + 2]].map(j => builder.addVertex(points[j][0], points[j][1], z));
+    if (facingUp) builder.addTriangle(a, b, c);
+    else builder.addTriangle(a, c, b);
+  }
+};
+
+/**
+ * Adds vertical walls from z0 to z1 along a ring that keeps the solid on its left.
+ */
+export const addRingWalls = (builder: MeshBuilder, ring: Point[], z0: number, z1: number) => {
+  for (let i = 0; i < ring.length; i++) {
+    const [x0, y0] = ring[i], [x1, y1] = ring[(i + 1) % ring.length];
+    builder.addPolygon([[x0, y0, z0], [x1, y1, z0], [x1, y1, z1], [x0, y0, z1]]);
+  }
+};
@@ -0,0 +1,104 @@
+import { BookmarkSettings } from '../types';
+import { OUTSIDE_INDEX } from '../constants';
+
+// Outline mask values
+export const MASK_OUTSIDE = 0;
+export const MASK_INSIDE = 1;
+export const MASK_RING = 2; // reinforcement ring around the tassel hole
+
+// Tab outline proportions
+const TAB_WIDTH_RATIO = 0.4;
+const TAB_MAX_HEIGHT_MM = 12;
+const TAB_HEIGHT_RATIO = 0.15;
+
+type Radii = [number, number, number, number]; // top-left, top-right, bottom-right, bottom-left
+
+/**
+ * Point-in-rounded-rectangle with a separate radius per corner (mm, y down).
+ */
+const inRoundedRect = (px: number, py: number, x0: number, y0: number, x1: number, y1: number, radii: Radii) => {
+  if (px < x0 || px > x1 || py < y0 || py > y1) return false;
+  const maxR = Math.min(x1 - x0, y1 - y0) / 2;
+  const [tl, tr, br, bl] = radii.map(r => Math.max(0, Math.min(r, maxR)));
+  const corner = (cx: number, cy: number, r: number) => (px - cx) ** 2 + (py - cy) ** 2 <= r * r;
+  if (px < x0 + tl && py < y0 + tl) return corner(x0 + tl, y0 + tl, tl);
+  if (px > x1 - tr && py < y0 + tr) return corner(x1 - tr, y0 + tr, tr);
+  if (px > x1 - br && py > y1 - br) return corner(x1 - br, y1 - br, br);
+  if (px < x0 + bl && py > y1 - bl) return corner(x0 + bl, y1 - bl, bl);
+  return true;
+};
+
+/**
+ * Whether a point (mm from the top-left corner) lies inside the chosen outline shape.
+ */
+const inOutline = (px: number, py: number, settings: BookmarkSettings) => {
+  const { widthMm: w, heightMm: h, cornerRadius: r } = settings;
+  switch (settings.outlineShape) {
+    case 'arch': {
+      // Half-ellipse across the full width on top of a body with rounded bottom corners
+      const archH = Math.min(w / 2, h / 2);
+      if (py >= archH) return inRoundedRect(px, py, 0, archH, w, h, [0, 0, r, r]);
+      return ((px - w / 2) / (w / 2)) ** 2 + ((py - archH) / archH) ** 2 <= 1;
+    }
+    case 'tab': {
+      const tabW = w * TAB_WIDTH_RATIO;
+      const tabH = Math.min(TAB_MAX_HEIGHT_MM, h * TAB_HEIGHT_RATIO);
+      return inRoundedRect(px, py, 0, tabH, w, h, [r, r, r, r])
+        || inRoundedRect(px, py, (w - tabW) / 2, 0, (w + tabW) / 2, tabH + r, [r, r, 0, 0]);
+    }
+    default:
+      return inRoundedRect(px, py, 0, 0, w, h, [r, r, r, r]);
+  }
+};
+
+/**
+ * Tassel hole center in mm from the top-left corner.
+ */
+export const getHoleCenter = (settings: BookmarkSettings): [number, number] => [
+  settings.widthMm / 2,
+  settings.holePosition === 'top' ? settings.holeOffset : settings.heightMm - settings.holeOffset,
+];
+
+/**
+ * Rasterizes the bookmark outline onto the processing grid: MASK_OUTSIDE beyond the
+ * outline or inside the tassel hole, MASK_RING on the reinforcement ring around the
+ * hole, MASK_INSIDE elsewhere. `silhouette` (1 = keep, same grid) drives the die-cut shape.
+ */
+export const buildOutlineMask = (width: number, height: number, settings: BookmarkSettings, silhouette: Uint8Array | null = null): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const sx = settings.widthMm / width, sy = settings.heightMm / height;
+  const useSilhouette = settings.outlineShape === 'silhouette' && silhouette?.length === mask.length;
+
+  const holeR = settings.holeDiameter / 2;
+  const ringR = holeR + settings.holeRingWidth;
+  const [holeX, holeY] = getHoleCenter(settings);
+
+  for (let y = 0; y < height; y++) {
+    const py = (y + 0.5) * sy;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const px = (x + 0.5) * sx;
+      const inside = useSilhouette ? silhouette![i] > 0 : inOutline(px, py, settings);
+      if (!inside) continue;
+      if (settings.holeEnabled) {
+        const d = Math.hypot(px - holeX, py - holeY);
+        if (d <= holeR) continue;
+        if (d <= ringR) { mask[i] = MASK_RING; continue; }
+      }
+      mask[i] = MASK_INSIDE;
+    }
+  }
+  return mask;
+};
+
+/**
+ * Clips indices to the outline (in place): outside pixels become OUTSIDE_INDEX and the
+ * hole ring is forced to slot 0, which is fused with the base plate into one solid piece.
+ */
+export const applyOutlineMask = (indices: Uint8Array, mask: Uint8Array): Uint8Array => {
+  for (let i = 0; i < indices.length; i++) {
+    if (mask[i] === MASK_OUTSIDE) indices[i] = OUTSIDE_INDEX;
+    else if (mask[i] === MASK_RING) indices[i] = 0;
+  }
+  return indices;
+};
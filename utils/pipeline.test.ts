@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { BookmarkSettings, RGB } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { getCanvasSize } from './imageHelper';
+import { QuantizeStep, processImageData, quantizeAndDither } from './pipeline';
+
+const settings: BookmarkSettings = { ...DEFAULT_SETTINGS, widthMm: 20, heightMm: 30, colorCount: 2 };
+const { width, height } = getCanvasSize(settings.widthMm, settings.heightMm);
+const lockedColors: (RGB | null)[] = [];
+
+// Left half black, right half white
+const pixels = new Uint8ClampedArray(width * height * 4).map((_, i) => (i % 4 === 3 || (i >> 2) % width >= width / 2 ? 255 : 0));
+
+describe('processImageData', () => {
+  it('gives the same result through a quantize hook that serves a stored pass', () => {
+    const stored = quantizeAndDither(pixels, width, height, settings, lockedColors);
+    let calls = 0;
+    const quantize: QuantizeStep = () => {
+      calls++;
+      return { palette: stored.palette, rawIndices: stored.rawIndices.slice() };
+    };
+    const hooked = processImageData(pixels, width, height, settings, lockedColors, {}, undefined, quantize);
+    const direct = processImageData(pixels, width, height, settings, lockedColors);
+    expect(calls).toBe(1);
+    expect(hooked.palette).toEqual(direct.palette);
+    expect(hooked.indices).toEqual(direct.indices);
+  });
+});
@@ -0,0 +1,236 @@
+import { BookmarkSettings, ProcessingState, RGB } from '../types';
+import { RES_PPM } from '../constants';
+import { mirrorIndices, quantizePixels, smoothIndices } from './imageHelper';
+import { ditherImage } from './ditherHelper';
+import { MeshBuffers } from './meshHelper';
+import { applyOutlineMask, buildOutlineMask } from './outlineHelper';
+import { applyFrame } from './frameHelper';
+import { applyTextLayer } from './textHelper';
+import { PrintabilityReport, analyzePrintability, fixPrintability } from './printabilityHelper';
+import { FilamentUsage } from './usageHelper';
+import { LuminanceStack, buildLuminanceStack, getStackIndices } from './stackHelper';
+import { buildReliefThickness } from './reliefHelper';
+import { PlateLayout } from './plateHelper';
+import { PlateDesign } from './stlHelper';
+
+// --- Types ---
+
+export interface ProcessedImage {
+  palette: RGB[];
+  indices: Uint8Array; // smoothed and clipped to the outline, what the preview and exporters consume
+  rawIndices: Uint8Array; // before smoothing
+  backIndices: Uint8Array | null; // double-sided back artwork in the front's palette, mirrored into mesh orientation
+  stack: LuminanceStack | null; // luminance mode only; `indices` then holds the slot visible at each pixel
+  relief: Float32Array | null; // relief thickness per pixel (mm, 0 outside the outline) when a relief mode is on
+  printability: PrintabilityReport; // of the front, after any auto-fix
+  width: number;
+  height: number;
+}
+
+export type ProgressCallback = (message: string, progress: number) => void;
+
+// Job payloads/results exchanged with the pipeline worker, keyed by job type
+export interface PipelineJobs {
+  process: {
+    request: {
+      pixels: Uint8ClampedArray;
+      width: number;
+      height: number;
+      settings: BookmarkSettings;
+      lockedColors: (RGB | null)[];
+      silhouette: Uint8Array | null; // die-cut mask on the same grid, 1 = keep
+      textLayer: Uint8Array | null; // rasterized text on the same grid, slot + 1 per pixel
+      backPixels: Uint8ClampedArray | null; // back artwork, same grid as `pixels`
+    };
+    result: ProcessedImage;
+  };
+  '3mf': {
+    request: { indices: Uint8Array; backIndices: Uint8Array | null; stack: LuminanceStack | null; relief: Float32Array | null; settings: BookmarkSettings; palette: RGB[]; thumbnailSrc: string; filamentNames: (string | null)[] };
+    result: Blob;
+  };
+  plate: {
+    request: { designs: PlateDesign[]; layout: PlateLayout; settings: BookmarkSettings; thumbnails: string[]; filamentNames: (string | null)[] };
+    result: Blob;
+  };
+  stl: {
+    request: { indices: Uint8Array; backIndices: Uint8Array | null; stack: LuminanceStack | null; relief: Float32Array | null; settings: BookmarkSettings; palette: RGB[] };
+    result: Blob;
+  };
+  mesh: {
+    request: { indices: Uint8Array; backIndices: Uint8Array | null; stack: LuminanceStack | null; relief: Float32Array | null; settings: BookmarkSettings };
+    result: MeshBuffers[]; // same geometry as the exports: one per palette slot, then one per slot for the back
+  };
+  usage: {
+    request: { indices: Uint8Array; backIndices: Uint8Array | null; stack: LuminanceStack | null; relief: Float32Array | null; settings: BookmarkSettings };
+    result: FilamentUsage;
+  };
+}
+
+export type PipelineJobType = keyof PipelineJobs;
+
+export type PipelineMessage = {
+  [K in PipelineJobType]: { jobId: number; type: K; payload: PipelineJobs[K]['request'] }
+}[PipelineJobType];
+
+export type PipelineResponse =
+  | { jobId: number; type: 'progress'; state: ProcessingState }
+  | { jobId: number; type: 'result'; result: PipelineJobs[PipelineJobType]['result'] }
+  | { jobId: number; type: 'error'; message: string };
+
+// --- Pure pipeline ---
+
+// Dithered output is already the final pattern; majority smoothing would erase it
+export const getSmoothingPasses = (settings: BookmarkSettings) =>
+  settings.ditherMode === 'none' ? settings.smoothing : 0;
+
+// Dither cell: the smallest dot the nozzle can print at the chosen scale
+const getDitherCellPx = (settings: BookmarkSettings) =>
+  Math.ceil(settings.printProfile.nozzleDiameter * settings.ditherDotScale * RES_PPM);
+
+/**
+ * Everything that affects quantization + dithering. Smoothing is deliberately
+ * excluded so a smoothing change can reuse the cached raw indices.
+ */
+export const getQuantizeKey = (width: number, height: number, settings: BookmarkSettings, lockedColors: (RGB | null)[]) =>
+  JSON.stringify([
+    width, height, settings.colorCount, settings.quantizeMode, settings.seed,
+    settings.ditherMode, settings.ditherStrength, settings.ditherDotScale, settings.printProfile.nozzleDiameter,
+    lockedColors.slice(0, settings.colorCount),
+  ]);
+
+/**
+ * Palette selection followed by the optional dithering stage.
+ */
+export const quantizeAndDither = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: BookmarkSettings,
+  lockedColors: (RGB | null)[],
+  onProgress?: ProgressCallback
+): { palette: RGB[]; rawIndices: Uint8Array } => {
+  onProgress?.('Quantizing colors...', 0.1);
+  const result = quantizePixels(pixels, width, height, settings.colorCount, {
+    lockedColors: lockedColors.slice(0, settings.colorCount),
+    mode: settings.quantizeMode,
+    seed: settings.seed,
+  });
+  if (settings.ditherMode === 'none') return { palette: result.palette, rawIndices: result.indices };
+
+  onProgress?.('Dithering...', 0.6);
+  const rawIndices = ditherImage(pixels, width, height, result.palette, {
+    mode: settings.ditherMode,
+    strength: settings.ditherStrength,
+    cellPx: getDitherCellPx(settings),
+    quantizeMode: settings.quantizeMode,
+  });
+  return { palette: result.palette, rawIndices };
+};
+
+/**
+ * Smoothing, then clipping to the outline (shape, corners, tassel hole), then the frame
+ * and text on top, so neither is eroded by smoothing, and finally the optional
+ * printability fix over the finished design. Always returns a fresh array.
+ */
+export const finishIndices = (
+  rawIndices: Uint8Array,
+  width: number,
+  height: number,
+  settings: BookmarkSettings,
+  silhouette: Uint8Array | null,
+  textLayer: Uint8Array | null = null
+): Uint8Array => {
+  const passes = getSmoothingPasses(settings);
+  const indices = passes > 0 ? smoothIndices(rawIndices, width, height, passes, settings.colorCount) : rawIndices.slice();
+  const outline = buildOutlineMask(width, height, settings, silhouette);
+  applyOutlineMask(indices, outline);
+  applyFrame(indices, width, height, settings);
+  if (textLayer) applyTextLayer(indices, textLayer, outline, settings.colorCount);
+  return settings.fixPrintability ? fixPrintability(indices, width, height, settings) : indices;
+};
+
+/**
+ * Back artwork for double-sided bookmarks: mapped onto the front palette (the same
+ * filaments print both sides), dithered and smoothed like the front, mirrored left-right
+ * so it reads correctly once the bookmark is turned over, and clipped to the outline.
+ * Frame and text stay on the front.
+ */
+export const finishBackIndices = (
+  backPixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: RGB[],
+  settings: BookmarkSettings,
+  silhouette: Uint8Array | null
+): Uint8Array => {
+  const dithered = settings.ditherMode !== 'none';
+  const mapped = ditherImage(backPixels, width, height, palette, {
+    mode: settings.ditherMode,
+    strength: settings.ditherStrength,
+    cellPx: dithered ? getDitherCellPx(settings) : 1,
+    quantizeMode: settings.quantizeMode,
+  });
+  const passes = getSmoothingPasses(settings);
+  const smoothed = passes > 0 ? smoothIndices(mapped, width, height, passes, settings.colorCount) : mapped;
+  const back = applyOutlineMask(mirrorIndices(smoothed, width, height), buildOutlineMask(width, height, settings, silhouette));
+  return settings.fixPrintability ? fixPrintability(back, width, height, settings) : back;
+};
+
+/**
+ * Luminance mode replaces the palette indices with a heightmap built from the image's
+ * lightness, clipped to the same outline. Frame, text and the back side are palette-mode
+ * features and are not applied.
+ */
+export const finishStack = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: RGB[],
+  settings: BookmarkSettings,
+  silhouette: Uint8Array | null
+): LuminanceStack => buildLuminanceStack(pixels, buildOutlineMask(width, height, settings, silhouette), palette, settings);
+
+/**
+ * Relief thickness from the image's grayscale, clipped to the same outline. Only palette
+ * mode has a relief; a luminance stack already is one.
+ */
+export const finishRelief = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: BookmarkSettings,
+  silhouette: Uint8Array | null
+): Float32Array | null =>
+  settings.reliefMode === 'off' || settings.stackMode !== 'palette'
+    ? null
+    : buildReliefThickness(pixels, buildOutlineMask(width, height, settings, silhouette), width, height, settings);
+
+// Optional per-design inputs on the processing grid
+export interface DesignLayers {
+  silhouette?: Uint8Array | null;
+  textLayer?: Uint8Array | null;
+  backPixels?: Uint8ClampedArray | null;
+}
+
+// The quantize + dither stage, swappable so a caller can serve it from a cache
+export type QuantizeStep = typeof quantizeAndDither;
+
+export const processImageData = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: BookmarkSettings,
+  lockedColors: (RGB | null)[],
+  { silhouette = null, textLayer = null, backPixels = null }: DesignLayers = {},
+  onProgress?: ProgressCallback,
+  quantize: QuantizeStep = quantizeAndDither
+): ProcessedImage => {
+  const { palette, rawIndices } = quantize(pixels, width, height, settings, lockedColors, onProgress);
+  onProgress?.('Smoothing...', 0.8);
+  const stack = settings.stackMode === 'luminance' ? finishStack(pixels, width, height, palette, settings, silhouette) : null;
+  const indices = stack ? getStackIndices(stack) : finishIndices(rawIndices, width, height, settings, silhouette, textLayer);
+  const backIndices = backPixels && !stack ? finishBackIndices(backPixels, width, height, palette, settings, silhouette) : null;
+  const relief = finishRelief(pixels, width, height, settings, silhouette);
+  const printability = analyzePrintability(indices, width, height, settings);
+  return { palette, indices, rawIndices, backIndices, stack, relief, printability, width, height };
+};
@@ -0,0 +1,86 @@
+import { ProcessingState } from '../types';
+import { PipelineJobs, PipelineJobType, PipelineResponse } from './pipeline';
+
+export type PipelineProgressCallback = (state: ProcessingState) => void;
+
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Pipeline job cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+/**
+ * Owns one pipeline worker that runs a single job at a time. Starting a new job
+ * cancels the running one by terminating the worker (a busy worker can't be
+ * interrupted any other way) and respawning it lazily.
+ */
+export const createPipelineRunner = () => {
+  let worker: Worker | null = null;
+  let nextJobId = 0;
+  let pending: {
+    jobId: number;
+    resolve: (result: PipelineJobs[PipelineJobType]['result']) => void;
+    reject: (err: Error) => void;
+    onProgress?: PipelineProgressCallback;
+  } | null = null;
+
+  const spawn = () => {
+    const w = new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url), { type: 'module' });
+    w.onmessage = (e: MessageEvent<PipelineResponse>) => {
+      const msg = e.data;
+      if (!pending || msg.jobId !== pending.jobId) return;
+      if (msg.type === 'progress') {
+        pending.onProgress?.(msg.state);
+        return;
+      }
+      const job = pending;
+      pending = null;
+      if (msg.type === 'result') job.resolve(msg.result);
+      else job.reject(new Error(msg.message));
+    };
+    w.onerror = (e) => {
+      const job = pending;
+      pending = null;
+      worker?.terminate();
+      worker = null;
+      job?.reject(new Error(e.message || 'Worker crashed'));
+    };
+    return w;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+    const job = pending;
+    pending = null;
+    worker?.terminate();
+    worker = null;
+    job.reject(new PipelineCancelledError());
+  };
+
+  const run = <K extends PipelineJobType>(
+    type: K,
+    payload: PipelineJobs[K]['request'],
+    transfer: Transferable[] = [],
+    onProgress?: PipelineProgressCallback
+  ): Promise<PipelineJobs[K]['result']> => {
+    cancel();
+    if (!worker) worker = spawn();
+    const jobId = ++nextJobId;
+    return new Promise((resolve, reject) => {
+      // The worker answers job K with K's result type
+      pending = { jobId, resolve: result => resolve(result as PipelineJobs[K]['result']), reject, onProgress };
+      worker!.postMessage({ jobId, type, payload }, transfer);
+    });
+  };
+
+  const dispose = () => {
+    cancel();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return { run, cancel, dispose };
+};
+
+export type PipelineRunner = ReturnType<typeof createPipelineRunner>;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../constants';
+import { packPlates } from './plateHelper';
+import { PlateDesign, generatePlate3MF } from './stlHelper';
+
+describe('packPlates', () => {
+  it('keeps the spacing between designs and centers the block on the bed', () => {
+    const { placements, plateCount } = packPlates([{ width: 20, height: 30 }, { width: 20, height: 30 }], 100, 100, 5);
+    expect(plateCount).toBe(1);
+    expect(placements).toEqual([{ plate: 0, x: 27.5, y: 35 }, { plate: 0, x: 52.5, y: 35 }]);
+  });
+
+  it('starts a new row, then a new plate, when the designs run out of room', () => {
+    const { placements, plateCount } = packPlates([{ width: 40, height: 60 }, { width: 40, height: 60 }, { width: 40, height: 60 }], 100, 100, 5);
+    expect(plateCount).toBe(2);
+    expect(placements.map(p => p?.plate)).toEqual([0, 0, 1]);
+    expect(placements[2]).toEqual({ plate: 1, x: 30, y: 20 });
+  });
+
+  it('leaves out a design larger than the bed', () => {
+    const { placements, plateCount } = packPlates([{ width: 120, height: 20 }, { width: 20, height: 20 }], 100, 100, 5);
+    expect(plateCount).toBe(1);
+    expect(placements[0]).toBeNull();
+    expect(placements[1]?.plate).toBe(0);
+  });
+
+  it('refuses to write a project where no design fits on the bed', async () => {
+    const design: PlateDesign = { name: 'Huge', indices: new Uint8Array(1), backIndices: null, stack: null, relief: null, palette: [{ r: 0, g: 0, b: 0 }] };
+    const layout = packPlates([{ width: 300, height: 300 }], 100, 100, 5);
+    expect(layout.plateCount).toBe(0);
+    await expect(generatePlate3MF([design], layout, DEFAULT_SETTINGS, [])).rejects.toThrow('No design fits on the bed');
+  });
+});
@@ -0,0 +1,50 @@
+// A design's spot on the bed: lower-left corner in mm, y pointing away from the front
+export interface PlatePlacement {
+  plate: number; // 0-based
+  x: number;
+  y: number;
+}
+
+export interface PlateLayout {
+  placements: (PlatePlacement | null)[]; // per design; null for one larger than the bed
+  plateCount: number;
+}
+
+/**
+ * Shelf packing without rotation: designs go left to right in rows from the front of the
+ * bed, tallest first, `spacing` apart and from the edges, and spill onto further plates.
+ * Each plate's block is then centered on the bed.
+ */
+export const packPlates = (
+  sizes: { width: number; height: number }[],
+  bedWidth: number,
+  bedDepth: number,
+  spacing: number
+): PlateLayout => {
+  const usableW = bedWidth - 2 * spacing;
+  const usableD = bedDepth - 2 * spacing;
+  const placements: (PlatePlacement | null)[] = sizes.map(() => null);
+  const order = sizes.map((_, k) => k).sort((a, b) => sizes[b].height - sizes[a].height);
+
+  let plate = -1, x = 0, y = 0, shelf = 0;
+  for (const k of order) {
+    const { width, height } = sizes[k];
+    if (width > usableW || height > usableD) continue;
+    if (plate >= 0 && x + width > usableW) { y += shelf + spacing; x = 0; shelf = 0; }
+    if (plate < 0 || y + height > usableD) { plate++; x = 0; y = 0; shelf = 0; }
+    placements[k] = { plate, x, y };
+    x += width + spacing;
+    shelf = Math.max(shelf, height);
+  }
+
+  for (let p = 0; p <= plate; p++) {
+    const onPlate = placements.map((pl, k) => ({ pl, size: sizes[k] })).filter(({ pl }) => pl?.plate === p);
+    const blockW = Math.max(...onPlate.map(({ pl, size }) => pl!.x + size.width));
+    const blockD = Math.max(...onPlate.map(({ pl, size }) => pl!.y + size.height));
+    for (const { pl } of onPlate) {
+      pl!.x += (bedWidth - blockW) / 2;
+      pl!.y += (bedDepth - blockD) / 2;
+    }
+  }
+  return { placements, plateCount: plate + 1 };
+};
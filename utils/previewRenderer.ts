@@ -0,0 +1,343 @@
+import { RGB } from '../types';
+import { MeshBuffers } from './meshHelper';
+
+// --- Types ---
+
+export interface PreviewView {
+  yaw: number; // radians, rotation around the vertical axis
+  pitch: number; // radians, 0 = looking straight down at the top face
+  zoom: number; // 1 = whole bookmark fits the view
+  zScale: number; // layer-height exaggeration
+  cutY: number; // cross-section: geometry beyond this mesh y (mm) is hidden
+}
+
+export interface PreviewRenderer {
+  kind: 'webgl' | 'software';
+  setScene(meshes: MeshBuffers[], colors: RGB[]): void;
+  render(view: PreviewView): void;
+  dispose(): void;
+}
+
+type Mat4 = Float32Array; // column-major, as WebGL expects
+
+const BACKGROUND = { r: 15, g: 23, b: 42 }; // slate-900, matches the 2D preview frame
+const FOV = Math.PI / 5;
+// Light direction in camera space (normalized)
+const LIGHT = (() => { const l = [0.35, 0.55, 1]; const n = Math.hypot(...l); return l.map(v => v / n); })();
+
+// --- Matrix helpers ---
+
+const multiply = (a: Mat4, b: Mat4): Mat4 => {
+  const out = new Float32Array(16);
+  for (let c = 0; c < 4; c++) {
+    for (let r = 0; r < 4; r++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + r] * b[c * 4 + k];
+      out[c * 4 + r] = sum;
+    }
+  }
+  return out;
+};
+
+const fromRows = (...rows: number[][]): Mat4 => {
+  const out = new Float32Array(16);
+  rows.forEach((row, r) => row.forEach((v, c) => { out[c * 4 + r] = v; }));
+  return out;
+};
+
+const perspective = (aspect: number, near: number, far: number): Mat4 => {
+  const f = 1 / Math.tan(FOV / 2);
+  return fromRows(
+    [f / aspect, 0, 0, 0],
+    [0, f, 0, 0],
+    [0, 0, (far + near) / (near - far), (2 * far * near) / (near - far)],
+    [0, 0, -1, 0]
+  );
+};
+
+interface Bounds { center: [number, number, number]; radius: number }
+
+const getBounds = (meshes: MeshBuffers[]): Bounds => {
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  for (const { vertices } of meshes) {
+    for (let i = 0; i < vertices.length; i += 3) {
+      for (let k = 0; k < 3; k++) {
+        min[k] = Math.min(min[k], vertices[i + k]);
+        max[k] = Math.max(max[k], vertices[i + k]);
+      }
+    }
+  }
+  if (!isFinite(min[0])) return { center: [0, 0, 0], radius: 1 };
+  const center: [number, number, number] = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  return { center, radius: Math.max(1, Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2) };
+};
+
+/**
+ * Camera for an orbit around the bookmark's center. `rotation` is the rigid part,
+ * used to bring normals into camera space.
+ */
+const getCamera = (bounds: Bounds, view: PreviewView, aspect: number) => {
+  const { center, radius } = bounds;
+  // Fit the bounding sphere in the narrower of the two fields of view
+  const halfFov = Math.min(FOV / 2, Math.atan(Math.tan(FOV / 2) * aspect));
+  const distance = radius / Math.sin(halfFov) / Math.max(0.1, view.zoom);
+  const cy = Math.cos(view.yaw), sy = Math.sin(view.yaw);
+  const cp = Math.cos(view.pitch), sp = Math.sin(view.pitch);
+  const rotation = multiply(
+    fromRows([1, 0, 0, 0], [0, cp, sp, 0], [0, -sp, cp, 0], [0, 0, 0, 1]),
+    fromRows([cy, -sy, 0, 0], [sy, cy, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1])
+  );
+  const model = fromRows(
+    [1, 0, 0, -center[0]],
+    [0, 1, 0, -center[1]],
+    [0, 0, view.zScale, -center[2] * view.zScale],
+    [0, 0, 0, 1]
+  );
+  const modelView = multiply(fromRows([1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, -distance], [0, 0, 0, 1]), multiply(rotation, model));
+  const projection = perspective(aspect, Math.max(0.1, distance - radius * 4), distance + radius * 4);
+  return { modelView, projection, rotation };
+};
+
+const faceNormal = (v: ArrayLike<number>, a: number, b: number, c: number): [number, number, number] => {
+  const ux = v[b * 3] - v[a * 3], uy = v[b * 3 + 1] - v[a * 3 + 1], uz = v[b * 3 + 2] - v[a * 3 + 2];
+  const wx = v[c * 3] - v[a * 3], wy = v[c * 3 + 1] - v[a * 3 + 1], wz = v[c * 3 + 2] - v[a * 3 + 2];
+  const nx = uy * wz - uz * wy, ny = uz * wx - ux * wz, nz = ux * wy - uy * wx;
+  const len = Math.hypot(nx, ny, nz) || 1;
+  return [nx / len, ny / len, nz / len];
+};
+
+// Diffuse shade for a world-space normal, after exaggeration and camera rotation
+const shade = (n: [number, number, number], view: PreviewView, rotation: Mat4) => {
+  const nz = n[2] / view.zScale;
+  const len = Math.hypot(n[0], n[1], nz) || 1;
+  const x = n[0] / len, y = n[1] / len, z = nz / len;
+  const cx = rotation[0] * x + rotation[4] * y + rotation[8] * z;
+  const cy = rotation[1] * x + rotation[5] * y + rotation[9] * z;
+  const cz = rotation[2] * x + rotation[6] * y + rotation[10] * z;
+  return 0.35 + 0.65 * Math.abs(cx * LIGHT[0] + cy * LIGHT[1] + cz * LIGHT[2]);
+};
+
+// --- WebGL ---
+
+const VERTEX_SHADER = `
+attribute vec3 aPosition;
+attribute vec3 aNormal;
+uniform mat4 uModelView;
+uniform mat4 uProjection;
+uniform mat3 uRotation;
+uniform float uZScale;
+varying vec3 vNormal;
+varying float vY;
+void main() {
+  vY = aPosition.y;
+  vNormal = uRotation * normalize(vec3(aNormal.xy, aNormal.z / uZScale));
+  gl_Position = uProjection * uModelView * vec4(aPosition, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+uniform vec3 uColor;
+uniform vec3 uLight;
+uniform float uCut;
+varying vec3 vNormal;
+varying float vY;
+void main() {
+  if (vY > uCut) discard;
+  float light = 0.35 + 0.65 * abs(dot(normalize(vNormal), uLight));
+  // Inside faces only show through the cross-section; darken them
+  float facing = gl_FrontFacing ? 1.0 : 0.55;
+  gl_FragColor = vec4(uColor * light * facing, 1.0);
+}`;
+
+const compileProgram = (gl: WebGLRenderingContext) => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) || 'Shader compile failed');
+    return shader;
+  };
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) || 'Shader link failed');
+  return program;
+};
+
+const createWebGLRenderer = (canvas: HTMLCanvasElement): PreviewRenderer | null => {
+  const gl = canvas.getContext('webgl', { antialias: true });
+  if (!gl) return null;
+  let program: WebGLProgram;
+  try {
+    program = compileProgram(gl);
+  } catch (e) {
+    console.warn(e);
+    return null;
+  }
+  const attr = { position: gl.getAttribLocation(program, 'aPosition'), normal: gl.getAttribLocation(program, 'aNormal') };
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  const u = {
+    modelView: uniform('uModelView'), projection: uniform('uProjection'), rotation: uniform('uRotation'),
+    zScale: uniform('uZScale'), color: uniform('uColor'), light: uniform('uLight'), cut: uniform('uCut'),
+  };
+
+  let objects: { buffer: WebGLBuffer; count: number; color: RGB }[] = [];
+  let bounds: Bounds = { center: [0, 0, 0], radius: 1 };
+
+  const clearObjects = () => {
+    objects.forEach(o => gl.deleteBuffer(o.buffer));
+    objects = [];
+  };
+
+  return {
+    kind: 'webgl',
+    setScene(meshes, colors) {
+      clearObjects();
+      bounds = getBounds(meshes);
+      meshes.forEach((mesh, m) => {
+        // Flat shading: every triangle gets its own three vertices carrying the face normal
+        const { vertices, triangles } = mesh;
+        const data = new Float32Array(triangles.length * 6);
+        for (let t = 0; t < triangles.length; t += 3) {
+          const n = faceNormal(vertices, triangles[t], triangles[t + 1], triangles[t + 2]);
+          for (let k = 0; k < 3; k++) {
+            const v = triangles[t + k], o = (t + k) * 6;
+            data[o] = vertices[v * 3]; data[o + 1] = vertices[v * 3 + 1]; data[o + 2] = vertices[v * 3 + 2];
+            data[o + 3] = n[0]; data[o + 4] = n[1]; data[o + 5] = n[2];
+          }
+        }
+        const buffer = gl.createBuffer()!;
+        gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+        gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+        objects.push({ buffer, count: triangles.length, color: colors[m] ?? { r: 200, g: 200, b: 200 } });
+      });
+    },
+    render(view) {
+      const { width, height } = canvas;
+      gl.viewport(0, 0, width, height);
+      gl.clearColor(BACKGROUND.r / 255, BACKGROUND.g / 255, BACKGROUND.b / 255, 1);
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+      gl.enable(gl.DEPTH_TEST);
+      gl.useProgram(program);
+
+      const { modelView, projection, rotation } = getCamera(bounds, view, width / height);
+      gl.uniformMatrix4fv(u.modelView, false, modelView);
+      gl.uniformMatrix4fv(u.projection, false, projection);
+      gl.uniformMatrix3fv(u.rotation, false, [rotation[0], rotation[1], rotation[2], rotation[4], rotation[5], rotation[6], rotation[8], rotation[9], rotation[10]]);
+      gl.uniform1f(u.zScale, view.zScale);
+      gl.uniform3fv(u.light, LIGHT);
+      gl.uniform1f(u.cut, Math.min(view.cutY, 1e6)); // no Infinity in GLSL
+
+      for (const o of objects) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, o.buffer);
+        gl.enableVertexAttribArray(attr.position);
+        gl.vertexAttribPointer(attr.position, 3, gl.FLOAT, false, 24, 0);
+        gl.enableVertexAttribArray(attr.normal);
+        gl.vertexAttribPointer(attr.normal, 3, gl.FLOAT, false, 24, 12);
+        gl.uniform3f(u.color, o.color.r / 255, o.color.g / 255, o.color.b / 255);
+        gl.drawArrays(gl.TRIANGLES, 0, o.count);
+      }
+    },
+    dispose() {
+      clearObjects();
+      gl.deleteProgram(program);
+    },
+  };
+};
+
+// --- Software (Canvas 2D) ---
+
+/**
+ * Painter's-algorithm renderer for machines without WebGL: triangles are clipped at the
+ * cross-section plane, projected on the CPU, depth-sorted and filled back to front.
+ */
+const createSoftwareRenderer = (canvas: HTMLCanvasElement): PreviewRenderer => {
+  const ctx = canvas.getContext('2d')!;
+  let scene: { meshes: MeshBuffers[]; colors: RGB[]; normals: Float32Array[] } = { meshes: [], colors: [], normals: [] };
+  let bounds: Bounds = { center: [0, 0, 0], radius: 1 };
+
+  return {
+    kind: 'software',
+    setScene(meshes, colors) {
+      bounds = getBounds(meshes);
+      const normals = meshes.map(({ vertices, triangles }) => {
+        const out = new Float32Array(triangles.length);
+        for (let t = 0; t < triangles.length; t += 3) out.set(faceNormal(vertices, triangles[t], triangles[t + 1], triangles[t + 2]), t);
+        return out;
+      });
+      scene = { meshes, colors, normals };
+    },
+    render(view) {
+      const { width, height } = canvas;
+      const { modelView, projection, rotation } = getCamera(bounds, view, width / height);
+      const mvp = multiply(projection, modelView);
+      const project = (x: number, y: number, z: number): [number, number, number] => {
+        const w = mvp[3] * x + mvp[7] * y + mvp[11] * z + mvp[15];
+        return [
+          ((mvp[0] * x + mvp[4] * y + mvp[8] * z + mvp[12]) / w + 1) * width / 2,
+          (1 - (mvp[1] * x + mvp[5] * y + mvp[9] * z + mvp[13]) / w) * height / 2,
+          w,
+        ];
+      };
+
+      const faces: { points: [number, number, number][]; depth: number; fill: string }[] = [];
+      scene.meshes.forEach(({ vertices, triangles }, m) => {
+        const color = scene.colors[m] ?? { r: 200, g: 200, b: 200 };
+        const normals = scene.normals[m];
+        for (let t = 0; t < triangles.length; t += 3) {
+          // Sutherland–Hodgman against the cut plane y <= cutY
+          const corners = [0, 1, 2].map(k => { const v = triangles[t + k]; return [vertices[v * 3], vertices[v * 3 + 1], vertices[v * 3 + 2]]; });
+          const kept: number[][] = [];
+          for (let k = 0; k < 3; k++) {
+            const a = corners[k], b = corners[(k + 1) % 3];
+            const aIn = a[1] <= view.cutY, bIn = b[1] <= view.cutY;
+            if (aIn) kept.push(a);
+            if (aIn !== bIn) {
+              const s = (view.cutY - a[1]) / (b[1] - a[1]);
+              kept.push([a[0] + (b[0] - a[0]) * s, view.cutY, a[2] + (b[2] - a[2]) * s]);
+            }
+          }
+          if (kept.length < 3) continue;
+          const points = kept.map(([x, y, z]) => project(x, y, z));
+          // Screen y runs down, so outward (counter-clockwise) faces have negative area
+          const area = (points[1][0] - points[0][0]) * (points[2][1] - points[0][1]) - (points[1][1] - points[0][1]) * (points[2][0] - points[0][0]);
+          const light = shade([normals[t], normals[t + 1], normals[t + 2]], view, rotation) * (area < 0 ? 1 : 0.55);
+          faces.push({
+            points,
+            depth: points.reduce((sum, p) => sum + p[2], 0) / points.length,
+            fill: `rgb(${Math.round(color.r * light)},${Math.round(color.g * light)},${Math.round(color.b * light)})`,
+          });
+        }
+      });
+      faces.sort((a, b) => b.depth - a.depth);
+
+      ctx.fillStyle = `rgb(${BACKGROUND.r},${BACKGROUND.g},${BACKGROUND.b})`;
+      ctx.fillRect(0, 0, width, height);
+      ctx.lineWidth = 0.5; // stroking in the fill color hides anti-aliasing seams
+      for (const { points, fill } of faces) {
+        ctx.beginPath();
+        ctx.moveTo(points[0][0], points[0][1]);
+        for (let i = 1; i < points.length; i++) ctx.lineTo(points[i][0], points[i][1]);
+        ctx.closePath();
+        ctx.fillStyle = fill;
+        ctx.strokeStyle = fill;
+        ctx.fill();
+        ctx.stroke();
+      }
+    },
+    dispose() {
+      scene = { meshes: [], colors: [], normals: [] };
+    },
+  };
+};
+
+/**
+ * WebGL when available, otherwise the CPU renderer. `preferSoftware` forces the fallback.
+ */
+export const createPreviewRenderer = (canvas: HTMLCanvasElement, preferSoftware = false): PreviewRenderer =>
+  (!preferSoftware && createWebGLRenderer(canvas)) || createSoftwareRenderer(canvas);
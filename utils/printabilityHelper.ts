@@ -0,0 +1,167 @@
+import { BookmarkSettings } from '../types';
+import { OUTSIDE_INDEX, RES_PPM } from '../constants';
+
+// Filling one gap can leave a new sliver behind; repeat the fix at most this often
+const FIX_PASSES = 3;
+
+export interface PrintabilityReport {
+  thin: Uint8Array; // 1 = part of a feature narrower than the nozzle
+  islands: Uint8Array; // 1 = part of a color island below the minimum area
+  thinPixels: number;
+  islandCount: number;
+}
+
+// Offsets of a disk the size of the nozzle, the smallest line it can lay down
+const getNozzleDisk = (settings: BookmarkSettings): [number, number][] => {
+  const r = (settings.printProfile.nozzleDiameter * RES_PPM) / 2;
+  const reach = Math.floor(r);
+  const disk: [number, number][] = [];
+  for (let dy = -reach; dy <= reach; dy++) {
+    for (let dx = -reach; dx <= reach; dx++) if (dx * dx + dy * dy <= r * r) disk.push([dx, dy]);
+  }
+  return disk;
+};
+
+/**
+ * Morphological opening of every color at once: a pixel survives if some placement of the
+ * nozzle disk that covers it lies entirely inside its color. Off-canvas counts as a match
+ * so colors running off the edge are not flagged there.
+ */
+const findThin = (indices: Uint8Array, width: number, height: number, disk: [number, number][]) => {
+  const fits = new Uint8Array(indices.length); // erosion: the disk centered here fits
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const c = indices[i];
+      if (c === OUTSIDE_INDEX) continue;
+      let ok = 1;
+      for (const [dx, dy] of disk) {
+        const nx = x + dx, ny = y + dy;
+        if (nx >= 0 && ny >= 0 && nx < width && ny < height && indices[ny * width + nx] !== c) { ok = 0; break; }
+      }
+      fits[i] = ok;
+    }
+  }
+
+  const thin = new Uint8Array(indices.length);
+  let count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const c = indices[i];
+      if (c === OUTSIDE_INDEX || fits[i]) continue;
+      let covered = false;
+      for (const [dx, dy] of disk) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (fits[n] && indices[n] === c) { covered = true; break; }
+      }
+      if (!covered) { thin[i] = 1; count++; }
+    }
+  }
+  return { thin, count };
+};
+
+/**
+ * 4-connected components of a single color smaller than `minPixels`.
+ */
+const findIslands = (indices: Uint8Array, width: number, height: number, minPixels: number) => {
+  const islands = new Uint8Array(indices.length);
+  const seen = new Uint8Array(indices.length);
+  const stack: number[] = [];
+  const component: number[] = [];
+  let count = 0;
+
+  for (let start = 0; start < indices.length; start++) {
+    const c = indices[start];
+    if (seen[start] || c === OUTSIDE_INDEX) continue;
+    seen[start] = 1;
+    stack.push(start);
+    component.length = 0;
+    while (stack.length) {
+      const i = stack.pop()!;
+      component.push(i);
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= indices.length || seen[n] || indices[n] !== c) continue;
+        seen[n] = 1;
+        stack.push(n);
+      }
+    }
+    if (component.length < minPixels) {
+      for (const i of component) islands[i] = 1;
+      count++;
+    }
+  }
+  return { islands, count };
+};
+
+/**
+ * Flags what the printer cannot reproduce: features narrower than the nozzle and color
+ * islands smaller than settings.minIslandArea (mm²).
+ */
+export const analyzePrintability = (indices: Uint8Array, width: number, height: number, settings: BookmarkSettings): PrintabilityReport => {
+  const { thin, count: thinPixels } = findThin(indices, width, height, getNozzleDisk(settings));
+  const { islands, count: islandCount } = findIslands(indices, width, height, settings.minIslandArea * RES_PPM * RES_PPM);
+  return { thin, islands, thinPixels, islandCount };
+};
+
+/**
+ * Opens every color by removing its thin features and small islands, then closes the gaps
+ * by growing the surrounding colors back in, one ring at a time, each pixel taking the most
+ * common color among its settled neighbours. Gaps with no colored neighbour fall back to 0.
+ */
+const fillIssues = (indices: Uint8Array, width: number, thin: Uint8Array, islands: Uint8Array) => {
+  const height = indices.length / width;
+  const settled = new Uint8Array(indices.length);
+  let pending: number[] = [];
+  for (let i = 0; i < indices.length; i++) {
+    if (indices[i] !== OUTSIDE_INDEX && (thin[i] || islands[i])) pending.push(i);
+    else settled[i] = 1;
+  }
+
+  const counts = new Uint32Array(256);
+  while (pending.length) {
+    const assigned: [number, number][] = [];
+    const next: number[] = [];
+    for (const i of pending) {
+      const x = i % width, y = (i - x) / width;
+      counts.fill(0);
+      let best = -1;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          const c = indices[n];
+          if (!settled[n] || c === OUTSIDE_INDEX) continue;
+          counts[c]++;
+          if (best < 0 || counts[c] > counts[best]) best = c;
+        }
+      }
+      if (best >= 0) assigned.push([i, best]);
+      else next.push(i);
+    }
+    if (assigned.length === 0) {
+      for (const i of next) indices[i] = 0;
+      break;
+    }
+    for (const [i, c] of assigned) { indices[i] = c; settled[i] = 1; }
+    pending = next;
+  }
+};
+
+/**
+ * Auto-fix (in place): fills the flagged pixels from their surroundings and repeats while
+ * the result still has issues, up to FIX_PASSES times.
+ */
+export const fixPrintability = (indices: Uint8Array, width: number, height: number, settings: BookmarkSettings): Uint8Array => {
+  for (let pass = 0; pass < FIX_PASSES; pass++) {
+    const { thin, islands, thinPixels, islandCount } = analyzePrintability(indices, width, height, settings);
+    if (thinPixels === 0 && islandCount === 0) break;
+    fillIssues(indices, width, thin, islands);
+  }
+  return indices;
+};
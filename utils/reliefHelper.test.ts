@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { BookmarkSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { getCanvasSize } from './imageHelper';
+import { buildReliefMesh } from './reliefHelper';
+
+const settings: BookmarkSettings = { ...DEFAULT_SETTINGS, widthMm: 20, heightMm: 30, reliefMode: 'relief' };
+const { width, height } = getCanvasSize(settings.widthMm, settings.heightMm);
+
+const buildThickness = (at: (x: number, y: number) => number) => {
+  const thickness = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) thickness[y * width + x] = at(x, y);
+  return thickness;
+};
+
+const countTriangles = (thickness: Float32Array) => buildReliefMesh(thickness, settings).triangles.length / 3;
+
+describe('buildReliefMesh', () => {
+  it('builds a flat relief as a single box', () => {
+    expect(countTriangles(buildThickness(() => 1.5))).toBe(12);
+  });
+
+  it('builds a two-step relief from a handful of rectangles', () => {
+    expect(countTriangles(buildThickness(x => (x < width / 2 ? 1 : 2)))).toBeLessThanOrEqual(40);
+  });
+
+  it('keeps a noisy ramp to one terrace per layer instead of one quad per pixel', () => {
+    let seed = 1;
+    const noise = () => ((seed = (seed * 1103515245 + 12345) >>> 0) / 2 ** 32 - 0.5) * 0.1;
+    const triangles = countTriangles(buildThickness(x => 0.8 + (2.2 * x) / width + noise()));
+    // One quad per pixel would be 2 * 160 * 240 = 76800 for the top alone
+    expect(triangles).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,123 @@
+import { BookmarkSettings } from '../types';
+import { RES_PPM } from '../constants';
+import { getCanvasSize } from './imageHelper';
+import { MeshData, buildColumnMesh } from './meshHelper';
+import { snapToLayer } from './layerHelper';
+import { MASK_OUTSIDE, MASK_RING } from './outlineHelper';
+
+// Box blur passes; three of radius r come close to a Gaussian with a sigma of r
+const BLUR_PASSES = 3;
+
+export const getReliefSlot = (settings: BookmarkSettings) =>
+  Math.max(0, Math.min(settings.reliefSlot, settings.colorCount - 1));
+
+/**
+ * Height the relief stands on: the bed, or in overlay mode the top of the color layers
+ * (which getPrintSettings keeps flat so the relief rests on all of them).
+ */
+export const getReliefFloor = (settings: BookmarkSettings) => {
+  if (settings.reliefMode !== 'overlay') return 0;
+  const tops = settings.layerHeights.slice(0, settings.colorCount);
+  if (settings.frameEnabled) tops.push(settings.frameHeight);
+  return settings.baseHeight + Math.max(...tops);
+};
+
+/**
+ * One horizontal and one vertical running-sum box blur of the given radius (pixels).
+ */
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+  const rows = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    for (let x = -radius; x <= radius; x++) if (x >= 0 && x < width) sum += values[y * width + x];
+    for (let x = 0; x < width; x++) {
+      rows[y * width + x] = sum;
+      if (x - radius >= 0) sum -= values[y * width + x - radius];
+      if (x + radius + 1 < width) sum += values[y * width + x + radius + 1];
+    }
+  }
+  const out = new Float32Array(values.length);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = -radius; y <= radius; y++) if (y >= 0 && y < height) sum += rows[y * width + x];
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = sum;
+      if (y - radius >= 0) sum -= rows[(y - radius) * width + x];
+      if (y + radius + 1 < height) sum += rows[(y + radius + 1) * width + x];
+    }
+  }
+  return out;
+};
+
+/**
+ * Relief thickness (mm) per pixel from the image's grayscale, 0 outside the outline: blurred
+ * within the outline (so the surroundings never bleed into the edge), raised to the gamma,
+ * then mapped onto min..max thickness with dark thick unless inverted. The tassel hole ring
+ * is solid at full thickness.
+ */
+export const buildReliefThickness = (
+  pixels: Uint8ClampedArray,
+  outline: Uint8Array,
+  width: number,
+  height: number,
+  settings: BookmarkSettings
+): Float32Array => {
+  const { reliefMinThickness: min, reliefMaxThickness: max } = settings;
+  let gray = new Float32Array(outline.length);
+  let weight = new Float32Array(outline.length);
+  for (let i = 0; i < outline.length; i++) {
+    if (outline[i] === MASK_OUTSIDE) continue;
+    gray[i] = (0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]) / 255;
+    weight[i] = 1;
+  }
+
+  const radius = Math.round(settings.reliefBlur * RES_PPM);
+  if (radius > 0) {
+    for (let pass = 0; pass < BLUR_PASSES; pass++) {
+      gray = boxBlur(gray, width, height, radius);
+      weight = boxBlur(weight, width, height, radius);
+    }
+  }
+
+  const thickness = new Float32Array(outline.length);
+  for (let i = 0; i < outline.length; i++) {
+    if (outline[i] === MASK_OUTSIDE) continue;
+    if (outline[i] === MASK_RING) { thickness[i] = max; continue; }
+    const t = Math.pow(Math.min(1, gray[i] / weight[i]), settings.reliefGamma);
+    thickness[i] = min + (max - min) * (settings.reliefInvert ? t : 1 - t);
+  }
+  return thickness;
+};
+
+/**
+ * The relief as one watertight solid standing on getReliefFloor. Its top is averaged over
+ * nozzle-wide cells, as finer detail does not print, and snapped to the print profile's
+ * layers, which the slicer would cut it into anyway. Terraces of equal height then mesh as
+ * greedy rectangles instead of one quad per pixel.
+ */
+export const buildReliefMesh = (thickness: Float32Array, settings: BookmarkSettings): MeshData => {
+  const { width, height } = getCanvasSize(settings.widthMm, settings.heightMm);
+  const profile = settings.printProfile;
+  const cell = Math.max(1, Math.ceil(profile.nozzleDiameter * RES_PPM));
+  const cw = Math.ceil(width / cell);
+  const sums = new Float64Array(cw * Math.ceil(height / cell));
+  const counts = new Uint32Array(sums.length);
+  const cellOf = (i: number) => Math.floor(Math.floor(i / width) / cell) * cw + Math.floor((i % width) / cell);
+  for (let i = 0; i < thickness.length; i++) {
+    if (thickness[i] <= 0) continue;
+    sums[cellOf(i)] += thickness[i];
+    counts[cellOf(i)]++;
+  }
+
+  const floor = getReliefFloor(settings);
+  const lowest = snapToLayer(floor > 0 ? floor + profile.layerHeight : 0, profile);
+  const tops = new Float64Array(thickness.length);
+  for (let i = 0; i < thickness.length; i++) {
+    if (thickness[i] > 0) tops[i] = Math.max(lowest, snapToLayer(floor + sums[cellOf(i)] / counts[cellOf(i)], profile));
+  }
+  const zLevels = [...new Set(tops.filter(z => z > 0))].sort((a, b) => a - b);
+  const levelOf = new Map(zLevels.map((z, k) => [z, k + 1]));
+  const levels = new Uint16Array(thickness.length);
+  for (let i = 0; i < levels.length; i++) if (tops[i] > 0) levels[i] = levelOf.get(tops[i])!;
+  return buildColumnMesh(levels, [floor, ...zLevels], width, height, settings.widthMm / width, settings.heightMm / height);
+};
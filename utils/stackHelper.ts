@@ -0,0 +1,183 @@
+import { BookmarkSettings, RGB } from '../types';
+import { DEFAULT_TRANSMISSION_DISTANCE, OUTSIDE_INDEX, STACK_BAND_TD_FRACTION } from '../constants';
+import { rgbToHex, rgbToLab } from './colorHelper';
+import { getCanvasSize } from './imageHelper';
+import { MeshData, buildColumnMesh } from './meshHelper';
+import { snapToLayer } from './layerHelper';
+import { MASK_INSIDE, MASK_OUTSIDE } from './outlineHelper';
+
+// Levels are stored per pixel in a Uint8Array next to OUTSIDE_INDEX
+const MAX_LEVELS = OUTSIDE_INDEX;
+
+// One filament's share of the stack, z in mm
+export interface StackBand {
+  slot: number;
+  bottom: number;
+  top: number;
+}
+
+export interface FilamentSwap {
+  slot: number;
+  z: number; // mm, where the filament starts
+  layer: number; // 1-based number of the first layer printed with it
+}
+
+export interface LuminanceStack {
+  levels: Uint8Array; // per pixel index into `heights`, OUTSIDE_INDEX outside the outline
+  heights: number[]; // mm, every layer boundary from the base up, ascending
+  colors: RGB[]; // predicted color seen from above at each height
+  bands: StackBand[]; // bottom to top
+}
+
+const roundMm = (value: number) => Math.round(value * 10000) / 10000;
+
+const getTransmissionDistance = (settings: BookmarkSettings, slot: number) =>
+  settings.transmissionDistances[slot] > 0 ? settings.transmissionDistances[slot] : DEFAULT_TRANSMISSION_DISTANCE;
+
+/**
+ * Orders the palette dark to light and gives every filament a band of whole layers: the
+ * darkest fills the base plate, every later one is printed to STACK_BAND_TD_FRACTION of
+ * its transmission distance (so some of the band below still shows through its thin
+ * parts), and the lightest to its full TD so the brightest pixels show it pure.
+ */
+export const getStackBands = (palette: RGB[], settings: BookmarkSettings): StackBand[] => {
+  const { layerHeight } = settings.printProfile;
+  const order = palette.map((c, slot) => ({ slot, l: rgbToLab(c).l })).sort((a, b) => a.l - b.l).map(o => o.slot);
+  const bands: StackBand[] = [{ slot: order[0], bottom: 0, top: snapToLayer(settings.baseHeight, settings.printProfile) }];
+  order.slice(1).forEach((slot, k) => {
+    const last = k === order.length - 2;
+    const thickness = getTransmissionDistance(settings, slot) * (last ? 1 : STACK_BAND_TD_FRACTION);
+    const bottom = bands[bands.length - 1].top;
+    bands.push({ slot, bottom, top: roundMm(bottom + Math.max(1, Math.round(thickness / layerHeight)) * layerHeight) });
+  });
+  return bands;
+};
+
+/**
+ * Color seen from above where the stack is cut off at z: starting from the opaque base,
+ * every band blends over what is below by its printed thickness over its TD.
+ */
+const getStackColor = (bands: StackBand[], palette: RGB[], settings: BookmarkSettings, z: number): RGB => {
+  let { r, g, b } = palette[bands[0].slot];
+  for (const band of bands.slice(1)) {
+    const thickness = Math.min(z, band.top) - band.bottom;
+    if (thickness <= 0) break;
+    const alpha = Math.min(1, thickness / getTransmissionDistance(settings, band.slot));
+    const c = palette[band.slot];
+    r += (c.r - r) * alpha; g += (c.g - g) * alpha; b += (c.b - b) * alpha;
+  }
+  return { r: Math.round(r), g: Math.round(g), b: Math.round(b) };
+};
+
+/**
+ * HueForge-style shading: each pixel's lightness (CIELAB L*, stretched over the image's
+ * range) picks the height whose predicted stack color matches it best. The tassel hole
+ * ring of the outline mask stays at base height.
+ */
+export const buildLuminanceStack = (
+  pixels: Uint8ClampedArray,
+  outline: Uint8Array,
+  palette: RGB[],
+  settings: BookmarkSettings
+): LuminanceStack => {
+  const { layerHeight } = settings.printProfile;
+  const bands = getStackBands(palette, settings);
+  const heights: number[] = [];
+  for (let z = bands[0].top; z <= bands[bands.length - 1].top + 1e-6 && heights.length < MAX_LEVELS; z = roundMm(z + layerHeight)) heights.push(z);
+  const colors = heights.map(z => getStackColor(bands, palette, settings, z));
+  const curve = colors.map(c => rgbToLab(c).l);
+
+  const lightness = new Float32Array(outline.length);
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < outline.length; i++) {
+    if (outline[i] !== MASK_INSIDE) continue;
+    lightness[i] = rgbToLab({ r: pixels[i * 4], g: pixels[i * 4 + 1], b: pixels[i * 4 + 2] }).l;
+    min = Math.min(min, lightness[i]);
+    max = Math.max(max, lightness[i]);
+  }
+  const curveMin = Math.min(...curve), curveMax = Math.max(...curve);
+  const span = max > min ? max - min : 1;
+
+  // Closest level for every target lightness, on a 0.5 L* grid
+  const lookup = new Uint8Array(201);
+  for (let t = 0; t <= 200; t++) {
+    const target = curveMin + (t / 200) * (curveMax - curveMin);
+    let best = 0;
+    for (let j = 1; j < curve.length; j++) if (Math.abs(curve[j] - target) < Math.abs(curve[best] - target)) best = j;
+    lookup[t] = best;
+  }
+
+  const levels = new Uint8Array(outline.length);
+  for (let i = 0; i < levels.length; i++) {
+    if (outline[i] === MASK_OUTSIDE) levels[i] = OUTSIDE_INDEX;
+    else if (outline[i] === MASK_INSIDE) levels[i] = lookup[Math.round(((lightness[i] - min) / span) * 200)];
+    else levels[i] = 0;
+  }
+  return { levels, heights, colors, bands };
+};
+
+/**
+ * Palette slot visible from above at each pixel: the band its height ends in.
+ */
+export const getStackIndices = (stack: LuminanceStack): Uint8Array => {
+  const slotAt = stack.heights.map(z => (stack.bands.find(b => z <= b.top + 1e-6) ?? stack.bands[stack.bands.length - 1]).slot);
+  return stack.levels.map(level => (level === OUTSIDE_INDEX ? OUTSIDE_INDEX : slotAt[level]));
+};
+
+/**
+ * Filament changes by height, bottom band excluded: what the slicer has to switch to and
+ * from which layer on.
+ */
+export const getFilamentSwaps = (stack: LuminanceStack, settings: BookmarkSettings): FilamentSwap[] => {
+  const { firstLayerHeight, layerHeight } = settings.printProfile;
+  return stack.bands.slice(1).map(({ slot, bottom }) => ({
+    slot,
+    z: bottom,
+    layer: Math.round((bottom - firstLayerHeight) / layerHeight) + 2,
+  }));
+};
+
+/**
+ * The whole print as one watertight heightmap: pixel columns from the bed up to each
+ * pixel's height.
+ */
+export const buildHeightmapMesh = (stack: LuminanceStack, settings: BookmarkSettings): MeshData => {
+  const { width, height } = getCanvasSize(settings.widthMm, settings.heightMm);
+  const levels = new Uint16Array(stack.levels.length);
+  for (let i = 0; i < levels.length; i++) if (stack.levels[i] !== OUTSIDE_INDEX) levels[i] = stack.levels[i] + 1;
+  return buildColumnMesh(levels, [0, ...stack.heights], width, height, settings.widthMm / width, settings.heightMm / height);
+};
+
+/**
+ * The heightmap cut at the swap heights, one mesh per palette slot (empty for slots the
+ * stack does not use), for previews and per-color estimates.
+ */
+export const buildStackBandMeshes = (stack: LuminanceStack, settings: BookmarkSettings): MeshData[] => {
+  const { width, height } = getCanvasSize(settings.widthMm, settings.heightMm);
+  const meshes: MeshData[] = Array.from({ length: settings.colorCount }, () => ({ vertices: [], triangles: [] }));
+  for (const band of stack.bands) {
+    const zLevels = [band.bottom, ...stack.heights.filter(z => z > band.bottom + 1e-6 && z <= band.top + 1e-6)];
+    const levels = new Uint16Array(stack.levels.length);
+    for (let i = 0; i < levels.length; i++) {
+      if (stack.levels[i] === OUTSIDE_INDEX) continue;
+      const z = stack.heights[stack.levels[i]];
+      let level = 0;
+      while (level + 1 < zLevels.length && zLevels[level + 1] <= z + 1e-6) level++;
+      levels[i] = level;
+    }
+    meshes[band.slot] = buildColumnMesh(levels, zLevels, width, height, settings.widthMm / width, settings.heightMm / height);
+  }
+  return meshes;
+};
+
+/**
+ * Human-readable change schedule, for the STL download and the UI.
+ */
+export const formatSwapSchedule = (stack: LuminanceStack, settings: BookmarkSettings, palette: RGB[], filamentNames: (string | null)[] = []) => {
+  const name = (slot: number) => `Slot ${slot + 1} ${filamentNames[slot] ?? rgbToHex(palette[slot])}`;
+  return [
+    `Start with ${name(stack.bands[0].slot)}`,
+    ...getFilamentSwaps(stack, settings).map(s => `Layer ${s.layer} (z ${s.z.toFixed(2)} mm): change to ${name(s.slot)}`),
+    `Top at z ${stack.heights[stack.heights.length - 1].toFixed(2)} mm`,
+  ].join('\n');
+};
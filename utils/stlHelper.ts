@@ -1,74 +1,168 @@
 import JSZip from 'jszip';
-import { BookmarkSettings, RGB } from '../types';
-import { CANVAS_WIDTH, CANVAS_HEIGHT, BOOKMARK_WIDTH_MM, BOOKMARK_HEIGHT_MM } from '../constants';
+import { BookmarkSettings, Point, RGB } from '../types';
+import { OUTSIDE_INDEX } from '../constants';
+import { getCanvasSize } from './imageHelper';
+import { MeshBuilder, MeshData, addPolygonCap, addRingWalls, buildColumnMesh, mergeMeshes } from './meshHelper';
+import { ContourPolygon, getRegionPolygons, traceContours } from './contourHelper';
+import { mergePalettes, rgbToHex } from './colorHelper';
+import { getFramePixels, getFrameSlot } from './frameHelper';
+import { getBackDepth } from './layerHelper';
+import { FilamentSwap, LuminanceStack, buildHeightmapMesh, buildStackBandMeshes, formatSwapSchedule, getFilamentSwaps } from './stackHelper';
+import { buildReliefMesh, getReliefSlot } from './reliefHelper';
+import { PlateLayout } from './plateHelper';
 
-// --- Types ---
+// --- Helpers ---
 
-interface MeshData {
-  vertices: number[]; // Flat array [x,y,z, x,y,z...]
-  triangles: number[]; // Flat array of indices [v1,v2,v3...]
-}
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
 
-class MeshBuilder {
-  private vertices: number[] = [];
-  private triangles: number[] = [];
-  private vertexMap = new Map<string, number>();
+const base64ToUint8Array = (base64: string) => {
+  const binaryString = atob(base64.split(',')[1]);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
 
-  addVertex(x: number, y: number, z: number): number {
-    const key = `${x.toFixed(3)},${y.toFixed(3)},${z.toFixed(3)}`;
-    const existing = this.vertexMap.get(key);
-    if (existing !== undefined) return existing;
+// --- Mesh Generation ---
 
-    const index = this.vertices.length / 3;
-    this.vertices.push(x, y, z);
-    this.vertexMap.set(key, index);
-    return index;
-  }
+// Label given to frame pixels in the mesh-side copy of indices, so the frame can rise to
+// its own height while still belonging to its slot's object
+const FRAME_LABEL = OUTSIDE_INDEX - 1;
 
-  addBox(x: number, y: number, z: number, w: number, h: number, d: number) {
-    const v0 = this.addVertex(x, y, z);
-    const v1 = this.addVertex(x + w, y, z);
-    const v2 = this.addVertex(x + w, y + h, z);
-    const v3 = this.addVertex(x, y + h, z);
-    const v4 = this.addVertex(x, y, z + d);
-    const v5 = this.addVertex(x + w, y, z + d);
-    const v6 = this.addVertex(x + w, y + h, z + d);
-    const v7 = this.addVertex(x, y + h, z + d);
-
-    // Bottom
-    this.triangles.push(v0, v2, v1, v0, v3, v2);
-    // Top
-    this.triangles.push(v4, v5, v6, v4, v6, v7);
-    // Front
-    this.triangles.push(v0, v1, v5, v0, v5, v4);
-    // Back
-    this.triangles.push(v2, v3, v7, v2, v7, v6);
-    // Left
-    this.triangles.push(v0, v4, v7, v0, v7, v3);
-    // Right
-    this.triangles.push(v1, v2, v6, v1, v6, v5);
-  }
+// Part of a slot's object: labels matching `has` rise to `top`. A pixel covered by
+// several tiers takes the highest one.
+interface Tier {
+  top: number;
+  has: (label: number) => boolean;
+}
 
-  getData(): MeshData {
-    return { vertices: this.vertices, triangles: this.triangles };
-  }
+// One object: everything rises from `floor` to the tiers above it
+interface SlotTiers {
+  floor: number;
+  tiers: Tier[];
 }
 
-// --- Helpers ---
+/**
+ * Front indices with the frame relabelled to FRAME_LABEL, plus the tiers that make up each
+ * slot's object above its floor. Slot 0 is fused with the base plate (z 0..baseHeight
+ * inside the outline, or from the back layer up when double-sided, stepping up to its
+ * layer height where it is visible); every other slot stands on baseHeight.
+ */
+const getFrontTiers = (indices: Uint8Array, width: number, height: number, settings: BookmarkSettings, doubleSided: boolean) => {
+  const { baseHeight } = settings;
+  const frame = getFramePixels(indices, width, height, settings);
+  const labels = indices.slice();
+  if (frame) for (let i = 0; i < labels.length; i++) if (frame[i]) labels[i] = FRAME_LABEL;
+  const frameSlot = frame ? getFrameSlot(settings) : -1;
+
+  const slots: SlotTiers[] = [];
+  for (let c = 0; c < settings.colorCount; c++) {
+    const tiers: Tier[] = [{ top: baseHeight + settings.layerHeights[c], has: label => label === c }];
+    if (c === 0) tiers.push({ top: baseHeight, has: () => true });
+    if (c === frameSlot) tiers.push({ top: baseHeight + settings.frameHeight, has: label => label === FRAME_LABEL });
+    slots.push({ floor: c !== 0 ? baseHeight : doubleSided ? getBackDepth(settings) : 0, tiers });
+  }
+  return { labels, slots };
+};
 
-const rgbToHex = (c: RGB) => {
-  const f = (x: number) => Math.round(x).toString(16).padStart(2, '0').toUpperCase();
-  return `#${f(c.r)}${f(c.g)}${f(c.b)}`;
+/**
+ * Back artwork: every slot, slot 0 included, is its own flat object from z 0 to the back
+ * depth, so each side can be assigned and inspected separately in the slicer.
+ */
+const getBackTiers = (settings: BookmarkSettings): SlotTiers[] =>
+  Array.from({ length: settings.colorCount }, (_, c) => ({ floor: 0, tiers: [{ top: getBackDepth(settings), has: (label: number) => label === c }] }));
+
+// Distinct tier tops, ascending
+const getTierTops = (tiers: Tier[]) => [...new Set(tiers.map(t => t.top))].sort((a, b) => a - b);
+
+/**
+ * Builds one watertight shell per object from pixel columns.
+ */
+const buildPixelMeshes = (labels: Uint8Array, slots: SlotTiers[], settings: BookmarkSettings): MeshData[] => {
+  const { widthMm, heightMm } = settings;
+  const { width: gridW, height: gridH } = getCanvasSize(widthMm, heightMm);
+  const scaleX = widthMm / gridW;
+  const scaleY = heightMm / gridH;
+
+  return slots.map(({ floor, tiers }) => {
+    const tops = getTierTops(tiers);
+    const levels = new Uint16Array(gridW * gridH);
+    for (let i = 0; i < levels.length; i++) {
+      if (labels[i] === OUTSIDE_INDEX) continue;
+      let top = -Infinity;
+      for (const tier of tiers) if (tier.top > top && tier.has(labels[i])) top = tier.top;
+      if (top > -Infinity) levels[i] = tops.indexOf(top) + 1;
+    }
+    return buildColumnMesh(levels, [floor, ...tops], gridW, gridH, scaleX, scaleY);
+  });
 };
 
-const base64ToUint8Array = (base64: string) => {
-  const binaryString = atob(base64.split(',')[1]);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+/**
+ * Contour-mode counterpart of buildPixelMeshes: the same shells, but built from traced,
+ * simplified outlines. Each object is a stepped solid: a bottom cap at its floor, then for
+ * every tier top the walls of everything reaching at least that high and a cap over
+ * whatever stops there.
+ */
+const buildContourMeshes = (labels: Uint8Array, slots: SlotTiers[], settings: BookmarkSettings): MeshData[] => {
+  const { widthMm, heightMm } = settings;
+  const { width: gridW, height: gridH } = getCanvasSize(widthMm, heightMm);
+  const scaleX = widthMm / gridW;
+  const scaleY = heightMm / gridH;
+  const contours = traceContours(labels, gridW, gridH, {
+    tolerance: settings.contourTolerance / scaleX,
+    smooth: settings.contourSmoothing,
+  });
+  const regions = (inRegion: (index: number) => boolean): Point[][][] =>
+    getRegionPolygons(contours, inRegion).map(({ outer, holes }: ContourPolygon) =>
+      [outer, ...holes].map(ring => ring.map(([x, y]): Point => [x * scaleX, (gridH - y) * scaleY]))
+    );
+
+  return slots.map(({ floor, tiers }) => {
+    const builder = new MeshBuilder();
+    const tops = getTierTops(tiers);
+    const reaches = (z: number) => (label: number) => tiers.some(t => t.top >= z && t.has(label));
+
+    for (const rings of regions(reaches(tops[0]))) addPolygonCap(builder, rings, floor, false);
+    tops.forEach((z, k) => {
+      const below = k === 0 ? floor : tops[k - 1];
+      const above = k + 1 < tops.length ? reaches(tops[k + 1]) : () => false;
+      const here = reaches(z);
+      for (const rings of regions(here)) rings.forEach(ring => addRingWalls(builder, ring, below, z));
+      for (const rings of regions(label => here(label) && !above(label))) addPolygonCap(builder, rings, z, true);
+    });
+    return builder.getData();
+  });
+};
+
+/**
+ * One mesh per palette slot for the front; for double-sided bookmarks, followed by one per
+ * slot for the back artwork (`backIndices`, already mirrored into mesh orientation). A
+ * luminance stack replaces both with its bands, one per slot. A relief is added to its
+ * slot's mesh; in relief-only mode it is the only geometry.
+ */
+export const buildColorMeshes = (
+  indices: Uint8Array,
+  settings: BookmarkSettings,
+  backIndices: Uint8Array | null = null,
+  stack: LuminanceStack | null = null,
+  relief: Float32Array | null = null
+): MeshData[] => {
+  if (stack) return buildStackBandMeshes(stack, settings);
+  let meshes: MeshData[];
+  if (relief && settings.reliefMode === 'relief') {
+    meshes = Array.from({ length: settings.colorCount }, () => ({ vertices: [], triangles: [] }));
+  } else {
+    const { width, height } = getCanvasSize(settings.widthMm, settings.heightMm);
+    const build = settings.meshMode === 'contour' ? buildContourMeshes : buildPixelMeshes;
+    const front = getFrontTiers(indices, width, height, settings, backIndices !== null);
+    meshes = build(front.labels, front.slots, settings);
+    if (backIndices && getBackDepth(settings) > 0) meshes.push(...build(backIndices, getBackTiers(settings), settings));
   }
-  return bytes;
+  if (relief) meshes[getReliefSlot(settings)] = mergeMeshes(meshes[getReliefSlot(settings)], buildReliefMesh(relief, settings));
+  return meshes;
 };
 
 // --- STL Generation ---
@@ -108,148 +202,418 @@ const writeBinarySTL = (mesh: MeshData): ArrayBuffer => {
 
 export const generateSTLs = async (
   indices: Uint8Array,
-  settings: BookmarkSettings
+  settings: BookmarkSettings,
+  backIndices: Uint8Array | null = null,
+  stack: LuminanceStack | null = null,
+  relief: Float32Array | null = null
 ): Promise<{ [key: string]: ArrayBuffer }> => {
-  const scaleX = BOOKMARK_WIDTH_MM / CANVAS_WIDTH;
-  const scaleY = BOOKMARK_HEIGHT_MM / CANVAS_HEIGHT;
   const result: { [key: string]: ArrayBuffer } = {};
-
-  for (let c = 0; c < 4; c++) {
-    const builder = new MeshBuilder();
-    const zStart = settings.baseHeight;
-    const height = settings.layerHeights[c];
-    if (c === 0) builder.addBox(0, 0, 0, BOOKMARK_WIDTH_MM, BOOKMARK_HEIGHT_MM, settings.baseHeight);
-
-    for (let y = 0; y < CANVAS_HEIGHT; y++) {
-      let startX = -1;
-      for (let x = 0; x < CANVAS_WIDTH; x++) {
-        if (indices[y * CANVAS_WIDTH + x] === c) {
-            if (startX === -1) startX = x;
-        } else if (startX !== -1) {
-            builder.addBox(startX * scaleX, (CANVAS_HEIGHT - 1 - y) * scaleY, zStart, (x - startX) * scaleX, 1 * scaleY, height);
-            startX = -1;
-        }
-      }
-      if (startX !== -1) builder.addBox(startX * scaleX, (CANVAS_HEIGHT - 1 - y) * scaleY, zStart, (CANVAS_WIDTH - startX) * scaleX, 1 * scaleY, height);
-    }
-    const data = builder.getData();
-    if (data.triangles.length > 0) result[c === 0 ? "Color_1_Base.stl" : `Color_${c + 1}.stl`] = writeBinarySTL(data);
+  // A luminance stack prints as one part, colored by filament changes at height
+  if (stack) {
+    result['Heightmap.stl'] = writeBinarySTL(buildHeightmapMesh(stack, settings));
+    return result;
+  }
+  // The relief is always its own part, so the color layers can stay separate below it
+  if (relief) {
+    result['Relief.stl'] = writeBinarySTL(buildReliefMesh(relief, settings));
+    if (settings.reliefMode === 'relief') return result;
   }
+  const meshes = buildColorMeshes(indices, settings, backIndices);
+
+  meshes.forEach((data, m) => {
+    if (data.triangles.length === 0) return;
+    const c = m % settings.colorCount;
+    const name = m >= settings.colorCount ? `Back_Color_${c + 1}.stl` : c === 0 ? "Color_1_Base.stl" : `Color_${c + 1}.stl`;
+    result[name] = writeBinarySTL(data);
+  });
   return result;
 };
 
+/**
+ * generateSTLs zipped, with the filament change schedule of a luminance stack alongside.
+ */
+export const generateSTLZip = async (
+  indices: Uint8Array,
+  settings: BookmarkSettings,
+  palette: RGB[],
+  backIndices: Uint8Array | null = null,
+  stack: LuminanceStack | null = null,
+  relief: Float32Array | null = null
+): Promise<Blob> => {
+  const stlBuffers = await generateSTLs(indices, settings, backIndices, stack, relief);
+  const zip = new JSZip();
+  Object.keys(stlBuffers).forEach(filename => { zip.file(filename, stlBuffers[filename]); });
+  if (stack) zip.file('Color_Changes.txt', formatSwapSchedule(stack, settings, palette));
+  return await zip.generateAsync({ type: 'blob' });
+};
+
 // --- 3MF Helper Functions ---
 
-const get3DModelXML = (
-  meshes: { id: number, name: string, data: MeshData, paletteIdx: number }[],
-  palette: RGB[]
-): string => {
-  const objectIds = meshes.map(m => m.id);
-  const containerId = 100; // Unique assembly ID
-  const materialId = 200;  // Unique materials ID
+// Namespace for app-specific model metadata (filament assignments etc.)
+const BOOKMARK_NS = 'http://3dbookmark.app/3mf/2025/bookmark';
+
+// Deliberately not this app's name (that goes in bookmark:Generator): Bambu Studio's 3MF
+// loader (src/libslic3r/Format/bbs_3mf.cpp) only treats a file as a project when its
+// Application metadata starts with "BambuStudio-". Otherwise it warns "The 3mf is not from
+// Bambu Lab, load geometry data only." and skips model_settings.config and the project
+// config, losing the per-part extruders.
+const BAMBU_APPLICATION = 'BambuStudio-01.08.00.00';
+const BAMBU_NS = 'http://schemas.bambulab.com/package/2021';
+
+// Materials & Properties extension, for the per-part display colors
+const MATERIAL_NS = 'http://schemas.microsoft.com/3dmanufacturing/material/2015/02';
+
+// Ids of the basematerials (filament names) and the colorgroup the parts take their color
+// from; mesh and assembly objects are numbered after them
+const MATERIAL_ID = 1;
+const COLOR_GROUP_ID = 2;
+const FIRST_OBJECT_ID = 3;
+
+// Bambu Studio lays out plates on a grid with a fifth of the bed between them
+const PLATE_GAP_RATIO = 0.2;
+
+interface MeshObject {
+  id: number;
+  name: string;
+  data: MeshData;
+  paletteIdx: number;
+}
 
-  let materialsXML = `<basematerials id="${materialId}">`;
-  palette.forEach((color, i) => {
-    materialsXML += `<base name="Color ${i + 1}" displaycolor="${rgbToHex(color)}FF" />`;
-  });
-  materialsXML += `</basematerials>`;
+// One design: an object whose components are its parts, placed on a plate with its
+// lower-left corner at x, y (mm on the bed)
+interface Assembly {
+  id: number;
+  name: string;
+  parts: MeshObject[];
+  plate: number;
+  x: number;
+  y: number;
+}
 
-  let objectsXML = '';
-  for (const mesh of meshes) {
-    let verticesXML = '';
-    for (let i = 0; i < mesh.data.vertices.length; i += 3) {
-      verticesXML += `<vertex x="${mesh.data.vertices[i].toFixed(4)}" y="${mesh.data.vertices[i+1].toFixed(4)}" z="${mesh.data.vertices[i+2].toFixed(4)}" />`;
-    }
-    let trianglesXML = '';
-    for (let i = 0; i < mesh.data.triangles.length; i += 3) {
-      // Assign specific material index to each triangle
-      trianglesXML += `<triangle v1="${mesh.data.triangles[i]}" v2="${mesh.data.triangles[i+1]}" v3="${mesh.data.triangles[i+2]}" p1="${mesh.paletteIdx}" />`;
-    }
+// Per-plate filament changes of the luminance stacks printed on it
+interface PlateSwaps {
+  plate: number;
+  swaps: FilamentSwap[];
+}
+
+// One design to pack, in its own palette
+export interface PlateDesign {
+  name: string;
+  indices: Uint8Array;
+  backIndices: Uint8Array | null;
+  stack: LuminanceStack | null;
+  relief: Float32Array | null;
+  palette: RGB[];
+}
+
+/**
+ * Where Bambu Studio puts plate `plate` of `plateCount` in model space: a near-square grid
+ * growing right and towards the front.
+ */
+const getPlateOrigin = (plate: number, plateCount: number, settings: BookmarkSettings) => {
+  const { bedWidth, bedDepth } = settings.printProfile;
+  const columns = Math.ceil(Math.sqrt(plateCount));
+  return {
+    x: (plate % columns) * bedWidth * (1 + PLATE_GAP_RATIO),
+    y: -Math.floor(plate / columns) * bedDepth * (1 + PLATE_GAP_RATIO),
+  };
+};
 
-    objectsXML += `
-    <object id="${mesh.id}" pid="${materialId}" name="${mesh.name}" type="model">
+const getObjectXML = (mesh: MeshObject) => {
+  let verticesXML = '';
+  for (let i = 0; i < mesh.data.vertices.length; i += 3) {
+    verticesXML += `<vertex x="${mesh.data.vertices[i].toFixed(4)}" y="${mesh.data.vertices[i+1].toFixed(4)}" z="${mesh.data.vertices[i+2].toFixed(4)}" />`;
+  }
+  let trianglesXML = '';
+  for (let i = 0; i < mesh.data.triangles.length; i += 3) {
+    trianglesXML += `<triangle v1="${mesh.data.triangles[i]}" v2="${mesh.data.triangles[i+1]}" v3="${mesh.data.triangles[i+2]}" />`;
+  }
+  return `
+    <object id="${mesh.id}" pid="${COLOR_GROUP_ID}" pindex="${mesh.paletteIdx}" name="${escapeXml(mesh.name)}" type="model">
       <mesh>
         <vertices>${verticesXML}</vertices>
         <triangles>${trianglesXML}</triangles>
       </mesh>
     </object>`;
-  }
+};
 
-  const componentsXML = objectIds.map(id => `<component objectid="${id}" />`).join('');
-  objectsXML += `
-    <object id="${containerId}" type="model">
-      <components>${componentsXML}</components>
-    </object>`;
+const get3DModelXML = (
+  assemblies: Assembly[],
+  plateCount: number,
+  palette: RGB[],
+  filamentNames: (string | null)[],
+  metadata: { [name: string]: string },
+  settings: BookmarkSettings
+): string => {
+  let materialsXML = `<basematerials id="${MATERIAL_ID}">`;
+  palette.forEach((color, i) => {
+    materialsXML += `<base name="${escapeXml(filamentNames[i] || `Color ${i + 1}`)}" displaycolor="${rgbToHex(color)}FF" />`;
+  });
+  materialsXML += `</basematerials>`;
+  materialsXML += `\n    <m:colorgroup id="${COLOR_GROUP_ID}">${palette.map(color => `<m:color color="${rgbToHex(color)}FF" />`).join('')}</m:colorgroup>`;
+
+  const objectsXML = assemblies.map(assembly => `${assembly.parts.map(getObjectXML).join('')}
+    <object id="${assembly.id}" name="${escapeXml(assembly.name)}" type="model">
+      <components>${assembly.parts.map(p => `<component objectid="${p.id}" />`).join('')}</components>
+    </object>`).join('');
+
+  const itemsXML = assemblies.map(assembly => {
+    const origin = getPlateOrigin(assembly.plate, plateCount, settings);
+    return `<item objectid="${assembly.id}" transform="1 0 0 0 1 0 0 0 1 ${origin.x + assembly.x} ${origin.y + assembly.y} 0" />`;
+  }).join('\n    ');
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
-  <metadata name="Application">BambuBookmarkCreator</metadata>
-  <metadata name="Thumbnail">/Metadata/thumbnail.png</metadata>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:m="${MATERIAL_NS}" xmlns:bookmark="${BOOKMARK_NS}" xmlns:BambuStudio="${BAMBU_NS}">
+  <metadata name="Application">${BAMBU_APPLICATION}</metadata>
+  <metadata name="BambuStudio:3mfVersion">1</metadata>
+  <metadata name="bookmark:Generator">BambuBookmarkCreator</metadata>
+  ${Object.entries(metadata).map(([name, value]) => `<metadata name="${escapeXml(name)}">${escapeXml(value)}</metadata>`).join('\n  ')}
   <resources>
     ${materialsXML}
     ${objectsXML}
   </resources>
   <build>
-    <item objectid="${containerId}" />
+    ${itemsXML}
   </build>
 </model>`;
 };
 
+/**
+ * Bambu Studio's per-object settings: every assembly is one object whose layers are parts
+ * printed by the extruder (AMS slot) of their palette slot, listed on its plate.
+ */
+const getModelSettingsXML = (assemblies: Assembly[], plateCount: number) => `<?xml version="1.0" encoding="UTF-8"?>
+<config>
+${assemblies.map(assembly => `  <object id="${assembly.id}">
+    <metadata key="name" value="${escapeXml(assembly.name)}"/>
+    <metadata key="extruder" value="1"/>
+${assembly.parts.map(m => `    <part id="${m.id}" subtype="normal_part">
+      <metadata key="name" value="${escapeXml(m.name)}"/>
+      <metadata key="matrix" value="1 0 0 0 0 1 0 0 0 0 1 0 0 0 0 1"/>
+      <metadata key="extruder" value="${m.paletteIdx + 1}"/>
+    </part>`).join('\n')}
+  </object>`).join('\n')}
+${Array.from({ length: plateCount }, (_, plate) => `  <plate>
+    <metadata key="plater_id" value="${plate + 1}"/>
+    <metadata key="plater_name" value=""/>
+    <metadata key="locked" value="false"/>
+    <metadata key="thumbnail_file" value="Metadata/plate_${plate + 1}.png"/>
+${assemblies.filter(a => a.plate === plate).map(a => `    <model_instance>
+      <metadata key="object_id" value="${a.id}"/>
+      <metadata key="instance_id" value="0"/>
+      <metadata key="identify_id" value="${a.id}"/>
+    </model_instance>`).join('\n')}
+  </plate>`).join('\n')}
+</config>`;
+
+/**
+ * The slicer settings the design was built for, in Bambu Studio's project format (every
+ * value a string): one filament per palette slot in its color, the print profile's layers,
+ * and the purge per filament change as the flush matrix.
+ */
+const getProjectSettingsJSON = (settings: BookmarkSettings, palette: RGB[]) => {
+  const { printProfile } = settings;
+  const perFilament = (value: string) => palette.map(() => value);
+  const flush = palette.flatMap((_, from) => palette.map((_, to) => String(from === to ? 0 : printProfile.purgeVolume)));
+  return JSON.stringify({
+    layer_height: String(printProfile.layerHeight),
+    initial_layer_print_height: String(printProfile.firstLayerHeight),
+    nozzle_diameter: [String(printProfile.nozzleDiameter)],
+    printable_area: ['0x0', `${printProfile.bedWidth}x0`, `${printProfile.bedWidth}x${printProfile.bedDepth}`, `0x${printProfile.bedDepth}`],
+    filament_colour: palette.map(c => rgbToHex(c)),
+    filament_type: perFilament(printProfile.filamentMaterial),
+    filament_diameter: perFilament(String(printProfile.filamentDiameter)),
+    filament_density: perFilament(String(printProfile.filamentDensity)),
+    flush_volumes_matrix: flush,
+  }, null, 4);
+};
+
 const getRelsXML = () => `<?xml version="1.0" encoding="UTF-8"?>
 <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
   <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel" />
+  <Relationship Target="/Metadata/thumbnail.png" Id="rel1" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail" />
 </Relationships>`;
 
+/**
+ * Filament changes by height in Bambu Studio's layer-change format: a tool change at the
+ * top of the first layer of every band above the base, per plate.
+ */
+const getCustomGcodeXML = (schedules: PlateSwaps[], settings: BookmarkSettings, palette: RGB[]) => `<?xml version="1.0" encoding="utf-8"?>
+<custom_gcodes_per_layer>
+${schedules.map(({ plate, swaps }) => `<plate>
+<plate_info id="${plate + 1}"/>
+${swaps.map(s =>
+  `<layer top_z="${(s.z + settings.printProfile.layerHeight).toFixed(4)}" type="2" extruder="${s.slot + 1}" color="${rgbToHex(palette[s.slot])}" extra="" gcode="tool_change"/>`
+).join('\n')}
+<mode value="MultiAsSingle"/>
+</plate>`).join('\n')}
+</custom_gcodes_per_layer>`;
+
 const getContentTypesXML = () => `<?xml version="1.0" encoding="UTF-8"?>
 <Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
   <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml" />
   <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml" />
   <Default Extension="png" ContentType="image/png" />
+  <Default Extension="xml" ContentType="application/xml" />
+  <Override PartName="/Metadata/model_settings.config" ContentType="application/xml" />
+  <Override PartName="/Metadata/project_settings.config" ContentType="application/json" />
 </Types>`;
 
-// --- Main Generation Function ---
-
-export const generate3MF = async (
-  indices: Uint8Array,
+/**
+ * Enough to regenerate a design from the same cropped image, plus the filament per slot.
+ */
+const getDesignMetadata = (
   settings: BookmarkSettings,
   palette: RGB[],
-  thumbnailSrc: string
-): Promise<Blob> => {
-  const scaleX = BOOKMARK_WIDTH_MM / CANVAS_WIDTH;
-  const scaleY = BOOKMARK_HEIGHT_MM / CANVAS_HEIGHT;
-  const meshObjects: { id: number, name: string, data: MeshData, paletteIdx: number }[] = [];
+  filamentNames: (string | null)[],
+  design: { backIndices: Uint8Array | null; stack: LuminanceStack | null; relief: Float32Array | null }
+) => {
+  const metadata: { [name: string]: string } = {};
+  metadata['bookmark:Seed'] = String(settings.seed);
+  metadata['bookmark:QuantizeMode'] = settings.quantizeMode;
+  metadata['bookmark:ColorCount'] = String(settings.colorCount);
+  metadata['bookmark:Smoothing'] = String(settings.smoothing);
+  if (design.backIndices && !design.stack && getBackDepth(settings) > 0) metadata['bookmark:BackDepth'] = String(getBackDepth(settings));
+  metadata['bookmark:StackMode'] = design.stack ? 'luminance' : 'palette';
+  if (design.relief) {
+    metadata['bookmark:ReliefMode'] = settings.reliefMode;
+    metadata['bookmark:ReliefThickness'] = `${settings.reliefMinThickness}-${settings.reliefMaxThickness}`;
+  }
+  metadata['bookmark:FirstLayerHeight'] = String(settings.printProfile.firstLayerHeight);
+  metadata['bookmark:LayerHeight'] = String(settings.printProfile.layerHeight);
+  metadata['bookmark:NozzleDiameter'] = String(settings.printProfile.nozzleDiameter);
 
-  for (let c = 0; c < 4; c++) {
-    const builder = new MeshBuilder();
-    const zStart = settings.baseHeight;
-    const height = settings.layerHeights[c];
-    if (c === 0) builder.addBox(0, 0, 0, BOOKMARK_WIDTH_MM, BOOKMARK_HEIGHT_MM, settings.baseHeight);
-
-    for (let y = 0; y < CANVAS_HEIGHT; y++) {
-      let startX = -1;
-      for (let x = 0; x < CANVAS_WIDTH; x++) {
-        if (indices[y * CANVAS_WIDTH + x] === c) {
-            if (startX === -1) startX = x;
-        } else if (startX !== -1) {
-            builder.addBox(startX * scaleX, (CANVAS_HEIGHT - 1 - y) * scaleY, zStart, (x - startX) * scaleX, 1 * scaleY, height);
-            startX = -1;
-        }
-      }
-      if (startX !== -1) builder.addBox(startX * scaleX, (CANVAS_HEIGHT - 1 - y) * scaleY, zStart, (CANVAS_WIDTH - startX) * scaleX, 1 * scaleY, height);
-    }
-    const data = builder.getData();
-    if (data.vertices.length > 0) {
-        const hex = rgbToHex(palette[c]).substring(1);
-        const name = c === 0 ? `Layer_1_Base_${hex}` : `Layer_${c + 1}_${hex}`;
-        meshObjects.push({ id: c + 1, name, data, paletteIdx: c });
-    }
+  palette.forEach((color, c) => {
+    metadata[`bookmark:Slot${c + 1}Color`] = rgbToHex(color);
+    if (filamentNames[c]) metadata[`bookmark:Slot${c + 1}Filament`] = filamentNames[c]!;
+  });
+  return metadata;
+};
+
+/**
+ * A design's parts, numbered from `firstId`. `slotMap` takes the design's palette slots to
+ * the slots of the file's palette, whose colors and names label the parts.
+ */
+const getDesignParts = (
+  design: PlateDesign,
+  settings: BookmarkSettings,
+  slotMap: number[],
+  palette: RGB[],
+  filamentNames: (string | null)[],
+  firstId: number
+): MeshObject[] => {
+  const { indices, backIndices, stack, relief } = design;
+  const parts: MeshObject[] = [];
+  const label = (c: number) => filamentNames[slotMap[c]] || rgbToHex(palette[slotMap[c]]).substring(1);
+  const add = (name: string, data: MeshData, c: number) => parts.push({ id: firstId + parts.length, name, data, paletteIdx: slotMap[c] });
+
+  if (stack) {
+    // A luminance stack is a single heightmap starting in its bottom filament
+    add('Heightmap', buildHeightmapMesh(stack, settings), stack.bands[0].slot);
+  } else if (!relief || settings.reliefMode !== 'relief') {
+    // Back objects follow the front ones and share their slot's material
+    buildColorMeshes(indices, settings, backIndices).forEach((data, m) => {
+      if (data.vertices.length === 0) return;
+      const c = m % settings.colorCount;
+      add(m >= settings.colorCount ? `Back_${c + 1}_${label(c)}` : c === 0 ? `Layer_1_Base_${label(c)}` : `Layer_${c + 1}_${label(c)}`, data, c);
+    });
   }
+  if (relief && !stack) {
+    // After every front and back object
+    const slot = getReliefSlot(settings);
+    add(`Relief_${label(slot)}`, buildReliefMesh(relief, settings), slot);
+  }
+  return parts;
+};
 
+const write3MF = async (
+  assemblies: Assembly[],
+  plateCount: number,
+  settings: BookmarkSettings,
+  palette: RGB[],
+  filamentNames: (string | null)[],
+  metadata: { [name: string]: string },
+  thumbnails: string[],
+  schedules: PlateSwaps[]
+): Promise<Blob> => {
   const zip = new JSZip();
   zip.file('[Content_Types].xml', getContentTypesXML());
   zip.folder('_rels')?.file('.rels', getRelsXML());
-  zip.folder('3D')?.file('3dmodel.model', get3DModelXML(meshObjects, palette));
-  zip.folder('Metadata')?.file('thumbnail.png', base64ToUint8Array(thumbnailSrc));
+  zip.folder('3D')?.file('3dmodel.model', get3DModelXML(assemblies, plateCount, palette, filamentNames, metadata, settings));
+  const images = thumbnails.map(base64ToUint8Array);
+  zip.folder('Metadata')?.file('thumbnail.png', images[0]);
+  for (let plate = 0; plate < plateCount; plate++) zip.folder('Metadata')?.file(`plate_${plate + 1}.png`, images[plate] ?? images[0]);
+  zip.folder('Metadata')?.file('model_settings.config', getModelSettingsXML(assemblies, plateCount));
+  zip.folder('Metadata')?.file('project_settings.config', getProjectSettingsJSON(settings, palette));
+  if (schedules.length) zip.folder('Metadata')?.file('custom_gcode_per_layer.xml', getCustomGcodeXML(schedules, settings, palette));
 
   return await zip.generateAsync({ type: 'blob' });
-};
\ No newline at end of file
+};
+
+// --- Main Generation Functions ---
+
+export const generate3MF = async (
+  indices: Uint8Array,
+  settings: BookmarkSettings,
+  palette: RGB[],
+  thumbnailSrc: string,
+  filamentNames: (string | null)[] = [],
+  backIndices: Uint8Array | null = null,
+  stack: LuminanceStack | null = null,
+  relief: Float32Array | null = null
+): Promise<Blob> => {
+  const design: PlateDesign = { name: 'Bookmark', indices, backIndices, stack, relief, palette };
+  const parts = getDesignParts(design, settings, palette.map((_, c) => c), palette, filamentNames, FIRST_OBJECT_ID);
+  // Bookmark centered on the build plate
+  const assembly: Assembly = {
+    id: FIRST_OBJECT_ID + parts.length,
+    name: design.name,
+    parts,
+    plate: 0,
+    x: (settings.printProfile.bedWidth - settings.widthMm) / 2,
+    y: (settings.printProfile.bedDepth - settings.heightMm) / 2,
+  };
+  const schedules = stack ? [{ plate: 0, swaps: getFilamentSwaps(stack, settings) }] : [];
+  return write3MF([assembly], 1, settings, palette, filamentNames, getDesignMetadata(settings, palette, filamentNames, design), [thumbnailSrc], schedules);
+};
+
+const sameSwaps = (a: FilamentSwap[], b: FilamentSwap[]) =>
+  a.length === b.length && a.every((swap, i) => swap.slot === b[i].slot && swap.z === b[i].z && swap.layer === b[i].layer);
+
+/**
+ * Several designs made with the same settings in one project, each placed by `layout`
+ * (see packPlates) and sharing one filament list of at most MAX_COLORS (see mergePalettes).
+ * Designs without a placement are left out. A plate gets the filament changes of its
+ * luminance stacks only when they all agree, since the slicer changes filament for the
+ * whole plate at once. `thumbnails` holds one image per plate.
+ */
+export const generatePlate3MF = async (
+  designs: PlateDesign[],
+  layout: PlateLayout,
+  settings: BookmarkSettings,
+  thumbnails: string[],
+  filamentNames: (string | null)[] = []
+): Promise<Blob> => {
+  const placed = designs.flatMap((design, k) => (layout.placements[k] ? [{ design, placement: layout.placements[k]! }] : []));
+  const merged = mergePalettes(placed.map(p => p.design.palette), filamentNames);
+  const assemblies: Assembly[] = [];
+  const plateSwaps = new Map<number, FilamentSwap[][]>();
+  let nextId = FIRST_OBJECT_ID;
+  placed.forEach(({ design, placement }, k) => {
+    const slotMap = merged.slotMaps[k];
+    const parts = getDesignParts(design, settings, slotMap, merged.palette, merged.filamentNames, nextId);
+    nextId += parts.length;
+    assemblies.push({ id: nextId++, name: design.name, parts, plate: placement.plate, x: placement.x, y: placement.y });
+    const swaps = design.stack ? getFilamentSwaps(design.stack, settings).map(s => ({ ...s, slot: slotMap[s.slot] })) : [];
+    plateSwaps.set(placement.plate, [...(plateSwaps.get(placement.plate) ?? []), swaps]);
+  });
+  if (assemblies.length === 0) throw new Error('No design fits on the bed');
+
+  const schedules: PlateSwaps[] = [];
+  plateSwaps.forEach(([first, ...others], plate) => {
+    if (first.length && others.every(swaps => sameSwaps(swaps, first))) schedules.push({ plate, swaps: first });
+  });
+  const metadata = getDesignMetadata(settings, merged.palette, merged.filamentNames, placed[0].design);
+  metadata['bookmark:Designs'] = String(assemblies.length);
+  return write3MF(assemblies, layout.plateCount, settings, merged.palette, merged.filamentNames, metadata, thumbnails, schedules);
+};
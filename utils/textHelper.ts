@@ -0,0 +1,102 @@
+import { TextBlock } from '../types';
+import { BUNDLED_FONTS, TEXT_LINE_HEIGHT } from '../constants';
+import { MASK_INSIDE } from './outlineHelper';
+
+export const createTextBlockId = () => `txt_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * A new block centered near the bottom of the bookmark, in slot 2 where there is one.
+ */
+export const createTextBlock = (text: string, widthMm: number, heightMm: number, colorCount: number): TextBlock => ({
+  id: createTextBlockId(),
+  text,
+  font: BUNDLED_FONTS[0].id,
+  sizeMm: 6,
+  xMm: widthMm / 2,
+  yMm: heightMm * 0.85,
+  rotation: 0,
+  align: 'center',
+  slot: Math.min(1, colorCount - 1),
+  strokeMm: 0,
+  strokeSlot: 0,
+});
+
+let fontsReady: Promise<void> | null = null;
+
+/**
+ * Registers the bundled fonts with the document once. A font that fails to load is
+ * logged and left to the browser's fallback rather than blocking the text layer.
+ */
+export const loadBundledFonts = (): Promise<void> => {
+  if (!fontsReady) {
+    fontsReady = Promise.allSettled(BUNDLED_FONTS.map(async font => {
+      const face = new FontFace(font.family, `url(${font.url})`, { weight: font.weight, style: font.style });
+      document.fonts.add(await face.load());
+    })).then(results => {
+      results.forEach(r => { if (r.status === 'rejected') console.error('Font failed to load', r.reason); });
+    });
+  }
+  return fontsReady;
+};
+
+const getFont = (id: string) => BUNDLED_FONTS.find(f => f.id === id) ?? BUNDLED_FONTS[0];
+
+/**
+ * Rasterizes text blocks onto the processing grid, later blocks on top. Each pixel holds
+ * its palette slot + 1 (0 = no text); letters are thresholded at half coverage so edges
+ * stay crisp at RES_PPM instead of blending into neighbouring colors.
+ */
+export const renderTextLayer = async (blocks: TextBlock[], width: number, height: number, widthMm: number): Promise<Uint8Array | null> => {
+  const visible = blocks.filter(b => b.text.trim() && b.sizeMm > 0);
+  if (visible.length === 0) return null;
+  await loadBundledFonts();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('No 2d context');
+  const ppm = width / widthMm;
+  const layer = new Uint8Array(width * height);
+
+  // Draws one pass of a block (stroke or fill) and stamps its coverage into the layer
+  const stamp = (block: TextBlock, slot: number, draw: (line: string, y: number) => void) => {
+    const font = getFont(block.font);
+    const size = block.sizeMm * ppm;
+    const lines = block.text.split('\n');
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.translate(block.xMm * ppm, block.yMm * ppm);
+    ctx.rotate((block.rotation * Math.PI) / 180);
+    ctx.font = `${font.style} ${font.weight} ${size}px "${font.family}", sans-serif`;
+    ctx.textAlign = block.align;
+    ctx.textBaseline = 'middle';
+    lines.forEach((line, i) => draw(line, (i - (lines.length - 1) / 2) * size * TEXT_LINE_HEIGHT));
+
+    const { data } = ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < layer.length; i++) if (data[i * 4 + 3] >= 128) layer[i] = slot + 1;
+  };
+
+  for (const block of visible) {
+    if (block.strokeMm > 0) {
+      stamp(block, block.strokeSlot, (line, y) => {
+        ctx.lineWidth = block.strokeMm * 2 * ppm; // half of it is hidden under the fill
+        ctx.lineJoin = 'round';
+        ctx.strokeText(line, 0, y);
+      });
+    }
+    stamp(block, block.slot, (line, y) => ctx.fillText(line, 0, y));
+  }
+  return layer;
+};
+
+/**
+ * Paints a text layer into indices (in place), only inside the outline and never over the
+ * tassel hole ring. Slots beyond the current color count fall back to the last slot.
+ */
+export const applyTextLayer = (indices: Uint8Array, layer: Uint8Array, outline: Uint8Array, colorCount: number): Uint8Array => {
+  for (let i = 0; i < indices.length; i++) {
+    if (layer[i] && outline[i] === MASK_INSIDE) indices[i] = Math.min(layer[i] - 1, colorCount - 1);
+  }
+  return indices;
+};
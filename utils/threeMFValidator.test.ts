@@ -0,0 +1,105 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { BookmarkSettings, RGB } from '../types';
+import { DEFAULT_SETTINGS, OUTSIDE_INDEX } from '../constants';
+import { getCanvasSize } from './imageHelper';
+import { generate3MF } from './stlHelper';
+import { validate3MF, validateModelXML } from './threeMFValidator';
+
+// 1x1 transparent PNG
+const THUMBNAIL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const settings: BookmarkSettings = { ...DEFAULT_SETTINGS, widthMm: 20, heightMm: 30, colorCount: 2 };
+const palette: RGB[] = [{ r: 255, g: 255, b: 255 }, { r: 0, g: 0, b: 0 }];
+
+// Slot 0 with a slot 1 square in the middle and a 2 px margin outside the outline
+const buildIndices = () => {
+  const { width, height } = getCanvasSize(settings.widthMm, settings.heightMm);
+  const indices = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = x >= 2 && y >= 2 && x < width - 2 && y < height - 2;
+      const square = Math.abs(x - width / 2) < 20 && Math.abs(y - height / 2) < 20;
+      indices[y * width + x] = !inside ? OUTSIDE_INDEX : square ? 1 : 0;
+    }
+  }
+  return indices;
+};
+
+const buildPackage = () => generate3MF(buildIndices(), settings, palette, THUMBNAIL);
+
+// The package with one part's text rewritten
+const editPart = async (blob: Blob, path: string, edit: (text: string) => string) => {
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  zip.file(path, edit(await zip.file(path)!.async('string')));
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+// A closed tetrahedron with outward-facing triangles, as a minimal model part
+const TETRAHEDRON = [[0, 2, 1], [0, 1, 3], [1, 2, 3], [0, 3, 2]];
+
+const getModelXML = (triangles: number[][]) => `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources>
+    <basematerials id="1"><base name="White" displaycolor="#FFFFFF" /></basematerials>
+    <object id="2" pid="1" pindex="0" type="model">
+      <mesh>
+        <vertices><vertex x="0" y="0" z="0" /><vertex x="10" y="0" z="0" /><vertex x="0" y="10" z="0" /><vertex x="0" y="0" z="10" /></vertices>
+        <triangles>${triangles.map(([v1, v2, v3]) => `<triangle v1="${v1}" v2="${v2}" v3="${v3}" />`).join('')}</triangles>
+      </mesh>
+    </object>
+  </resources>
+  <build><item objectid="2" /></build>
+</model>`;
+
+describe('validate3MF', () => {
+  it('accepts a generated package', async () => {
+    expect(await validate3MF(await buildPackage())).toEqual([]);
+  });
+
+  it('colors every part from a Materials & Properties color group', async () => {
+    const zip = await JSZip.loadAsync(await (await buildPackage()).arrayBuffer());
+    const xml = await zip.file('3D/3dmodel.model')!.async('string');
+    expect(xml).toContain('xmlns:m="http://schemas.microsoft.com/3dmanufacturing/material/2015/02"');
+    expect(xml).toMatch(/<m:colorgroup id="2"><m:color color="#FFFFFFFF" \/><m:color color="#000000FF" \/><\/m:colorgroup>/);
+    const parts = xml.match(/<object [^>]*pindex[^>]*>/g) ?? [];
+    expect(parts.length).toBeGreaterThan(0);
+    expect(parts.every(tag => tag.includes('pid="2"'))).toBe(true);
+  });
+
+  it('reports an object with a pid but no pindex', async () => {
+    const broken = await editPart(await buildPackage(), '3D/3dmodel.model', xml => xml.replace(/ pindex="\d+"/, ''));
+    expect(await validate3MF(broken)).toEqual([expect.stringMatching(/sets pid without pindex/)]);
+  });
+
+  it('reports a missing thumbnail relationship', async () => {
+    const broken = await editPart(await buildPackage(), '_rels/.rels', rels => rels.replace(/<Relationship [^>]*thumbnail[^>]*\/>/, ''));
+    expect(await validate3MF(broken)).toEqual(['/_rels/.rels has no thumbnail relationship']);
+  });
+
+  it('rejects data that is not a ZIP archive', async () => {
+    expect(await validate3MF(new Uint8Array([1, 2, 3]))).toEqual(['Not a ZIP archive']);
+  });
+});
+
+describe('validateModelXML', () => {
+  it('accepts a closed, consistently oriented mesh', () => {
+    expect(validateModelXML(getModelXML(TETRAHEDRON))).toEqual([]);
+  });
+
+  it('reports an open edge', () => {
+    expect(validateModelXML(getModelXML(TETRAHEDRON.slice(1)))).toEqual([expect.stringMatching(/Object 2 is not closed: 3 edges/)]);
+  });
+
+  it('reports a flipped triangle', () => {
+    const flipped = TETRAHEDRON.map(([v1, v2, v3], k) => (k === 0 ? [v1, v3, v2] : [v1, v2, v3]));
+    const errors = validateModelXML(getModelXML(flipped));
+    expect(errors).toContainEqual(expect.stringMatching(/Object 2 is not closed/));
+    expect(errors).toContainEqual(expect.stringMatching(/Object 2 is not manifold or not consistently oriented: 3 edges are repeated/));
+  });
+
+  it('reports malformed XML', () => {
+    const xml = getModelXML(TETRAHEDRON).replace('</resources>', '');
+    expect(validateModelXML(xml)).toEqual([expect.stringMatching(/not well-formed: <\/model> closes <resources>/)]);
+  });
+});
@@ -0,0 +1,347 @@
+import JSZip from 'jszip';
+
+// Namespaces and relationship types from the 3MF core specification and OPC
+const CORE_NS = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+const MATERIAL_NS = 'http://schemas.microsoft.com/3dmanufacturing/material/2015/02';
+const MODEL_REL = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+const THUMBNAIL_REL = 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail';
+const UNITS = ['micron', 'millimeter', 'centimeter', 'inch', 'foot', 'meter'];
+
+type Attrs = Record<string, string>;
+
+// --- Minimal XML reader ---
+
+const TAG = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[A-Za-z_][\w:.-]*\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>/y;
+const ATTR = /([A-Za-z_][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const BAD_ENTITY = /&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9A-Fa-f]+);)/;
+
+const decodeEntities = (value: string) =>
+  value.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9A-Fa-f]+);/g, (_, e: string) => {
+    if (e[0] === '#') return String.fromCodePoint(e[1] === 'x' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Attrs)[e];
+  });
+
+/**
+ * Streams the elements of an XML document to `onOpen` / `onClose`, throwing on anything
+ * that is not well-formed: unbalanced or unclosed tags, duplicate attributes, stray
+ * markup, bad entities, or more than one root element. Text content is not reported.
+ */
+export const walkXML = (
+  xml: string,
+  onOpen: (name: string, attrs: Attrs, depth: number) => void,
+  onClose: (name: string, depth: number) => void = () => {}
+) => {
+  const stack: string[] = [];
+  let pos = 0;
+  let roots = 0;
+  const fail = (message: string): never => {
+    const line = xml.slice(0, pos).split('\n').length;
+    throw new Error(`${message} (line ${line})`);
+  };
+  const checkText = (text: string) => {
+    if (BAD_ENTITY.test(text)) fail('Unescaped "&"');
+    if (stack.length === 0 && text.trim()) fail('Text outside the root element');
+  };
+
+  if (xml.charCodeAt(0) === 0xfeff) pos = 1;
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    if (lt < 0) {
+      checkText(xml.slice(pos));
+      break;
+    }
+    checkText(xml.slice(pos, lt));
+    pos = lt;
+    if (xml.startsWith('<?', pos)) {
+      const end = xml.indexOf('?>', pos);
+      if (end < 0) fail('Unterminated processing instruction');
+      pos = end + 2;
+      continue;
+    }
+    if (xml.startsWith('<!--', pos)) {
+      const end = xml.indexOf('-->', pos);
+      if (end < 0) fail('Unterminated comment');
+      pos = end + 3;
+      continue;
+    }
+    TAG.lastIndex = pos;
+    const match = TAG.exec(xml);
+    if (!match) fail('Malformed tag');
+    const [whole, closing, name, attrText, selfClosing] = match!;
+    if (closing) {
+      if (attrText || selfClosing) fail(`Malformed closing tag </${name}>`);
+      const open = stack.pop();
+      if (open !== name) fail(open ? `</${name}> closes <${open}>` : `Unexpected </${name}>`);
+      onClose(name, stack.length);
+    } else {
+      if (stack.length === 0 && roots++ > 0) fail('More than one root element');
+      const attrs: Attrs = {};
+      for (const [, key, dq, sq] of attrText.matchAll(ATTR)) {
+        const raw = dq ?? sq;
+        if (key in attrs) fail(`Duplicate attribute "${key}" on <${name}>`);
+        if (BAD_ENTITY.test(raw)) fail(`Unescaped "&" in attribute "${key}"`);
+        attrs[key] = decodeEntities(raw);
+      }
+      onOpen(name, attrs, stack.length);
+      if (selfClosing) onClose(name, stack.length);
+      else stack.push(name);
+    }
+    pos += whole.length;
+  }
+  if (stack.length) fail(`Unclosed <${stack[stack.length - 1]}>`);
+  if (roots === 0) fail('No root element');
+};
+
+// --- Model checks ---
+
+interface ModelObject {
+  id: string;
+  type: string;
+  pid?: string;
+  pindex?: string;
+  vertexCount: number;
+  triangleCount: number;
+  edges: Map<number, number> | null; // directed edge -> uses, meshes only
+}
+
+const isNumber = (value: string | undefined) => value !== undefined && value.trim() !== '' && isFinite(Number(value));
+const isIndex = (value: string | undefined) => value !== undefined && /^\d+$/.test(value);
+
+/**
+ * Checks a 3D model part against the 3MF core spec: units and namespaces, resource ids
+ * and references (property groups before the objects using them, components and build
+ * items pointing at defined objects), and that every mesh is a closed, consistently
+ * oriented 2-manifold: each edge used exactly once in each direction.
+ */
+export const validateModelXML = (xml: string): string[] => {
+  const errors: string[] = [];
+  const prefixes = new Set<string>();
+  // Materials & Properties elements, under whatever prefix the model declares for them
+  let colorGroup = '', color = '';
+  const ids = new Set<string>();
+  const groups = new Map<string, number>(); // property group id -> number of entries
+  const objects = new Map<string, ModelObject>();
+  let group: { id: string; size: number } | null = null;
+  let object: ModelObject | null = null;
+  let buildItems = 0;
+
+  const checkPrefix = (name: string, where: string) => {
+    const prefix = name.includes(':') ? name.split(':')[0] : null;
+    if (prefix && prefix !== 'xml' && !prefixes.has(prefix)) errors.push(`${where} uses undeclared namespace prefix "${prefix}"`);
+  };
+  const checkProperty = (pid: string, pindex: string | undefined, where: string) => {
+    const size = groups.get(pid);
+    if (size === undefined) errors.push(`${where} references undefined property group ${pid}`);
+    else if (pindex === undefined) errors.push(`${where} sets pid without pindex`);
+    else if (!isIndex(pindex) || Number(pindex) >= size) errors.push(`${where} has pindex ${pindex} outside property group ${pid}`);
+  };
+  const define = (id: string | undefined, where: string) => {
+    if (!isIndex(id) || Number(id) === 0) errors.push(`${where} has invalid id "${id}"`);
+    else if (ids.has(id!)) errors.push(`${where} reuses id ${id}`);
+    else ids.add(id!);
+  };
+
+  try {
+    walkXML(xml, (name, attrs, depth) => {
+      if (depth === 0) {
+        if (name !== 'model') errors.push(`Root element is <${name}>, expected <model>`);
+        if (attrs.xmlns !== CORE_NS) errors.push('Model is not in the 3MF core namespace');
+        if (attrs.unit !== undefined && !UNITS.includes(attrs.unit)) errors.push(`Unknown unit "${attrs.unit}"`);
+        for (const [key, value] of Object.entries(attrs)) {
+          if (!key.startsWith('xmlns:')) continue;
+          prefixes.add(key.slice(6));
+          if (value === MATERIAL_NS) { colorGroup = `${key.slice(6)}:colorgroup`; color = `${key.slice(6)}:color`; }
+        }
+        for (const ext of (attrs.requiredextensions ?? '').split(/\s+/).filter(Boolean)) {
+          if (!prefixes.has(ext)) errors.push(`Required extension "${ext}" is not a declared prefix`);
+        }
+        return;
+      }
+      checkPrefix(name, `<${name}>`);
+
+      switch (name === colorGroup ? 'colorgroup' : name === color ? 'color' : name) {
+        case 'metadata':
+          if (!attrs.name) errors.push('<metadata> without a name');
+          else checkPrefix(attrs.name, `Metadata "${attrs.name}"`);
+          break;
+        case 'basematerials':
+        case 'colorgroup':
+          define(attrs.id, `<${name}>`);
+          group = { id: attrs.id, size: 0 };
+          break;
+        case 'base':
+          if (!attrs.name) errors.push('<base> material without a name');
+          if (!/^#[0-9A-Fa-f]{6}([0-9A-Fa-f]{2})?$/.test(attrs.displaycolor ?? '')) errors.push(`<base> has invalid displaycolor "${attrs.displaycolor}"`);
+          if (group) group.size++;
+          break;
+        case 'color':
+          if (!/^#[0-9A-Fa-f]{6}([0-9A-Fa-f]{2})?$/.test(attrs.color ?? '')) errors.push(`<${name}> has invalid color "${attrs.color}"`);
+          if (group) group.size++;
+          break;
+        case 'object':
+          define(attrs.id, '<object>');
+          object = { id: attrs.id, type: attrs.type ?? 'model', pid: attrs.pid, pindex: attrs.pindex, vertexCount: 0, triangleCount: 0, edges: null };
+          if (object.pid !== undefined) checkProperty(object.pid, object.pindex, `Object ${object.id}`);
+          else if (object.pindex !== undefined) errors.push(`Object ${object.id} sets pindex without pid`);
+          break;
+        case 'mesh':
+          if (object) object.edges = new Map();
+          break;
+        case 'vertex':
+          if (!isNumber(attrs.x) || !isNumber(attrs.y) || !isNumber(attrs.z)) errors.push(`Object ${object?.id} has a vertex with invalid coordinates`);
+          if (object) object.vertexCount++;
+          break;
+        case 'triangle': {
+          if (!object?.edges) break;
+          const n = object.vertexCount;
+          const v = [attrs.v1, attrs.v2, attrs.v3].map(Number);
+          const where = `Object ${object.id} triangle ${object.triangleCount}`;
+          object.triangleCount++;
+          if (![attrs.v1, attrs.v2, attrs.v3].every(isIndex) || v.some(i => i >= n)) {
+            errors.push(`${where} references a missing vertex`);
+            break;
+          }
+          if (v[0] === v[1] || v[1] === v[2] || v[0] === v[2]) errors.push(`${where} is degenerate`);
+          if (attrs.p1 !== undefined) {
+            const pid = attrs.pid ?? object.pid;
+            if (pid === undefined) errors.push(`${where} sets p1 without a pid`);
+            else checkProperty(pid, attrs.p1, where);
+          }
+          for (let k = 0; k < 3; k++) {
+            const key = v[k] * n + v[(k + 1) % 3];
+            object.edges.set(key, (object.edges.get(key) ?? 0) + 1);
+          }
+          break;
+        }
+        case 'component': {
+          const target = objects.get(attrs.objectid);
+          if (!target) errors.push(`Object ${object?.id} has a component referencing undefined object ${attrs.objectid}`);
+          if (attrs.transform !== undefined && !isTransform(attrs.transform)) errors.push(`Object ${object?.id} has a component with an invalid transform`);
+          break;
+        }
+        case 'item': {
+          buildItems++;
+          const target = objects.get(attrs.objectid);
+          if (!target) errors.push(`Build item references undefined object ${attrs.objectid}`);
+          else if (target.type === 'other') errors.push(`Build item references object ${attrs.objectid} of type "other"`);
+          if (attrs.transform !== undefined && !isTransform(attrs.transform)) errors.push(`Build item for object ${attrs.objectid} has an invalid transform`);
+          break;
+        }
+      }
+    }, (name) => {
+      if ((name === 'basematerials' || name === colorGroup) && group) {
+        if (group.size === 0) errors.push(`Property group ${group.id} is empty`);
+        groups.set(group.id, group.size);
+        group = null;
+      } else if (name === 'object' && object) {
+        if (object.edges) errors.push(...checkManifold(object));
+        objects.set(object.id, object);
+        object = null;
+      }
+    });
+  } catch (err) {
+    errors.push(`Model XML is not well-formed: ${err instanceof Error ? err.message : err}`);
+    return errors;
+  }
+  if (buildItems === 0) errors.push('Build has no items');
+  return errors;
+};
+
+const isTransform = (value: string) => {
+  const parts = value.trim().split(/\s+/);
+  return parts.length === 12 && parts.every(isNumber);
+};
+
+const checkManifold = ({ id, vertexCount, triangleCount, edges }: ModelObject): string[] => {
+  if (triangleCount === 0) return [`Object ${id} has an empty mesh`];
+  let open = 0, overused = 0;
+  for (const [key, uses] of edges!) {
+    const a = Math.floor(key / vertexCount), b = key % vertexCount;
+    if (uses > 1) overused++;
+    if (!edges!.has(b * vertexCount + a)) open++;
+  }
+  const errors: string[] = [];
+  if (open) errors.push(`Object ${id} is not closed: ${open} edges have no opposite half-edge`);
+  if (overused) errors.push(`Object ${id} is not manifold or not consistently oriented: ${overused} edges are repeated`);
+  return errors;
+};
+
+// --- Package checks ---
+
+const readPart = async (zip: JSZip, path: string) => zip.file(path.replace(/^\//, ''))?.async('string') ?? null;
+
+const listElements = (xml: string, element: string) => {
+  const found: Attrs[] = [];
+  walkXML(xml, (name, attrs) => { if (name === element) found.push(attrs); });
+  return found;
+};
+
+/**
+ * Validates a whole 3MF package: content types for every part, the relationships (the
+ * start part and the thumbnail, every target present) and each 3D model it references.
+ * Returns the problems found; an empty list means the package is valid.
+ */
+export const validate3MF = async (data: Blob | ArrayBuffer | Uint8Array): Promise<string[]> => {
+  const errors: string[] = [];
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data instanceof Blob ? await data.arrayBuffer() : data);
+  } catch {
+    return ['Not a ZIP archive'];
+  }
+  const parts = Object.values(zip.files).filter(f => !f.dir).map(f => f.name);
+
+  const contentTypes = await readPart(zip, '[Content_Types].xml');
+  if (contentTypes === null) {
+    errors.push('Missing [Content_Types].xml');
+  } else {
+    try {
+      const defaults = new Set(listElements(contentTypes, 'Default').map(d => d.Extension?.toLowerCase()));
+      const overrides = new Set(listElements(contentTypes, 'Override').map(o => o.PartName?.toLowerCase()));
+      for (const part of parts) {
+        if (part === '[Content_Types].xml') continue;
+        const ext = part.includes('.') ? part.slice(part.lastIndexOf('.') + 1).toLowerCase() : '';
+        if (!defaults.has(ext) && !overrides.has(`/${part}`.toLowerCase())) errors.push(`Part /${part} has no content type`);
+      }
+    } catch (err) {
+      errors.push(`[Content_Types].xml is not well-formed: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const models: string[] = [];
+  for (const relsPath of parts.filter(p => /(^|\/)_rels\/[^/]*\.rels$/.test(p))) {
+    const isRoot = relsPath === '_rels/.rels';
+    const baseDir = relsPath.replace(/_rels\/[^/]*$/, '');
+    let rels: Attrs[];
+    try {
+      rels = listElements((await readPart(zip, relsPath))!, 'Relationship');
+    } catch (err) {
+      errors.push(`/${relsPath} is not well-formed: ${err instanceof Error ? err.message : err}`);
+      continue;
+    }
+    const relIds = new Set<string>();
+    for (const rel of rels) {
+      if (!rel.Id || relIds.has(rel.Id)) errors.push(`/${relsPath} has a missing or duplicate relationship Id "${rel.Id ?? ''}"`);
+      relIds.add(rel.Id);
+      if (!rel.Target || !rel.Type) {
+        errors.push(`/${relsPath} relationship ${rel.Id} lacks a Target or Type`);
+        continue;
+      }
+      const target = rel.Target.startsWith('/') ? rel.Target.slice(1) : baseDir + rel.Target;
+      if (!parts.includes(target)) errors.push(`/${relsPath} relationship ${rel.Id} targets missing part ${rel.Target}`);
+      if (rel.Type === MODEL_REL) models.push(target);
+      if (rel.Type === THUMBNAIL_REL && !/\.(png|jpe?g)$/i.test(target)) errors.push(`Thumbnail ${rel.Target} is not a PNG or JPEG`);
+    }
+    if (isRoot && rels.filter(r => r.Type === MODEL_REL).length !== 1) errors.push('/_rels/.rels must have exactly one 3D model relationship');
+    // Optional in the core spec, but slicers show it in their file pickers and every
+    // package this app writes carries one
+    if (isRoot && !rels.some(r => r.Type === THUMBNAIL_REL)) errors.push('/_rels/.rels has no thumbnail relationship');
+  }
+  if (!parts.includes('_rels/.rels')) errors.push('Missing /_rels/.rels');
+
+  for (const model of models) {
+    const xml = await readPart(zip, model);
+    if (xml !== null) errors.push(...validateModelXML(xml).map(e => `/${model}: ${e}`));
+  }
+  return errors;
+};
@@ -0,0 +1,127 @@
+import { BookmarkSettings } from '../types';
+import { ESTIMATE_FLOW_RATE, ESTIMATE_SWAP_TIME } from '../constants';
+import { MeshData } from './meshHelper';
+
+// Heights closer than this are the same layer boundary (mm)
+const Z_EPSILON = 1e-4;
+
+export interface SlotUsage {
+  volume: number; // mm³ in the model
+  grams: number; // model plus purge
+  meters: number; // model plus purge
+  purgeGrams: number;
+  swapsIn: number; // filament changes that load this slot
+}
+
+export interface FilamentUsage {
+  slots: SlotUsage[];
+  layers: number;
+  swaps: number;
+  grams: number;
+  purgeGrams: number;
+  seconds: number;
+}
+
+/**
+ * Enclosed volume of a closed, outward-facing mesh (divergence theorem).
+ */
+export const getMeshVolume = (mesh: MeshData) => {
+  const v = mesh.vertices, t = mesh.triangles;
+  let volume = 0;
+  for (let i = 0; i < t.length; i += 3) {
+    const a = t[i] * 3, b = t[i + 1] * 3, c = t[i + 2] * 3;
+    volume += v[a] * (v[b + 1] * v[c + 2] - v[b + 2] * v[c + 1])
+      - v[a + 1] * (v[b] * v[c + 2] - v[b + 2] * v[c])
+      + v[a + 2] * (v[b] * v[c + 1] - v[b + 1] * v[c]);
+  }
+  return volume / 6;
+};
+
+const getZRange = (mesh: MeshData): [number, number] | null => {
+  if (mesh.vertices.length === 0) return null;
+  let min = Infinity, max = -Infinity;
+  for (let i = 2; i < mesh.vertices.length; i += 3) {
+    min = Math.min(min, mesh.vertices[i]);
+    max = Math.max(max, mesh.vertices[i]);
+  }
+  return [min, max];
+};
+
+// Layer boundaries of the print profile from the bed up to `top`
+const getLayerBounds = (top: number, settings: BookmarkSettings) => {
+  const { firstLayerHeight, layerHeight } = settings.printProfile;
+  const bounds = [0];
+  for (let z = firstLayerHeight; z < top + Z_EPSILON; z += layerHeight) bounds.push(z);
+  if (bounds[bounds.length - 1] < top - Z_EPSILON) bounds.push(top);
+  return bounds;
+};
+
+/**
+ * Filament estimate for the meshes the exporters write (buildColorMeshes: one per slot,
+ * then one per slot for a double-sided back, which shares its slot's filament).
+ *
+ * Filament changes are counted the way an AMS prints: every layer prints each of its
+ * filaments once, starting with the one already loaded and ending, where possible, on one
+ * the next layer needs. Every change flushes printProfile.purgeVolume of the new filament.
+ */
+export const estimateFilamentUsage = (meshes: MeshData[], settings: BookmarkSettings): FilamentUsage => {
+  const { colorCount, printProfile } = settings;
+  const slotOf = (m: number) => m % colorCount;
+  const volumes = new Array(colorCount).fill(0);
+  const ranges: { slot: number; range: [number, number] }[] = [];
+  meshes.forEach((mesh, m) => {
+    const range = getZRange(mesh);
+    if (!range) return;
+    volumes[slotOf(m)] += getMeshVolume(mesh);
+    ranges.push({ slot: slotOf(m), range });
+  });
+
+  const top = ranges.reduce((max, r) => Math.max(max, r.range[1]), 0);
+  const bounds = getLayerBounds(top, settings);
+  const layerSlots: Set<number>[] = [];
+  for (let k = 0; k + 1 < bounds.length; k++) {
+    const active = new Set<number>();
+    for (const { slot, range } of ranges) {
+      if (range[0] < bounds[k + 1] - Z_EPSILON && range[1] > bounds[k] + Z_EPSILON) active.add(slot);
+    }
+    if (active.size) layerSlots.push(active);
+  }
+
+  const swapsIn = new Array(colorCount).fill(0);
+  let loaded = -1;
+  layerSlots.forEach((active, k) => {
+    const first = active.has(loaded) ? loaded : loaded < 0 ? [...active][0] : -1;
+    for (const slot of active) if (slot !== first) swapsIn[slot]++;
+    if (active.size === 1) {
+      loaded = [...active][0];
+      return;
+    }
+    const next = layerSlots[k + 1];
+    const candidates = [...active].filter(slot => slot !== first);
+    loaded = candidates.find(slot => next?.has(slot)) ?? candidates[0];
+  });
+
+  const gramsPerMm3 = printProfile.filamentDensity / 1000;
+  const mmPerMm3 = 1 / (Math.PI * (printProfile.filamentDiameter / 2) ** 2);
+  const slots = volumes.map((volume, c): SlotUsage => {
+    const purge = swapsIn[c] * printProfile.purgeVolume;
+    return {
+      volume,
+      grams: (volume + purge) * gramsPerMm3,
+      meters: ((volume + purge) * mmPerMm3) / 1000,
+      purgeGrams: purge * gramsPerMm3,
+      swapsIn: swapsIn[c],
+    };
+  });
+
+  const swaps = swapsIn.reduce((sum, n) => sum + n, 0);
+  const volume = volumes.reduce((sum, v) => sum + v, 0);
+  return {
+    slots,
+    layers: layerSlots.length,
+    swaps,
+    grams: slots.reduce((sum, s) => sum + s.grams, 0),
+    purgeGrams: slots.reduce((sum, s) => sum + s.purgeGrams, 0),
+    seconds: volume / ESTIMATE_FLOW_RATE + swaps * ESTIMATE_SWAP_TIME,
+  };
+};
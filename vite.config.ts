@@ -1,11 +1,13 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
   return {
     plugins: [react()],
     build: {
       outDir: 'dist',
+      // The CLI (npm run build:cli) is an SSR build and needs none of the site's assets
+      copyPublicDir: !isSsrBuild,
     }
   };
 });
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { ProcessingState, RGB } from '../types';
+import { buildColorMeshes, generate3MF, generatePlate3MF, generateSTLZip } from '../utils/stlHelper';
+import { toMeshBuffers } from '../utils/meshHelper';
+import { estimateFilamentUsage } from '../utils/usageHelper';
+import { PipelineMessage, PipelineResponse, QuantizeStep, getQuantizeKey, processImageData, quantizeAndDither } from '../utils/pipeline';
+
+// The tsconfig targets the DOM lib, so type the dedicated-worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<PipelineMessage>) => void) | null;
+  postMessage: (message: PipelineResponse, transfer?: Transferable[]) => void;
+};
+
+// Last quantization, so smoothing-only changes skip the expensive k-means pass
+let cache: { key: string; palette: RGB[]; rawIndices: Uint8Array } | null = null;
+
+const quantizeCached: QuantizeStep = (pixels, width, height, settings, lockedColors, onProgress) => {
+  const key = getQuantizeKey(width, height, settings, lockedColors);
+  if (!cache || cache.key !== key) {
+    cache = { key, ...quantizeAndDither(pixels, width, height, settings, lockedColors, onProgress) };
+  }
+  // Hand out a copy: the cached buffer must survive the transfer
+  return { palette: cache.palette, rawIndices: cache.rawIndices.slice() };
+};
+
+scope.onmessage = async (e) => {
+  const message = e.data;
+  const { jobId } = message;
+  const report = (status: ProcessingState['status']) => (text: string, value: number) =>
+    scope.postMessage({ jobId, type: 'progress', state: { status, message: text, progress: value } });
+
+  try {
+    if (message.type === 'process') {
+      const { pixels, width, height, settings, lockedColors, silhouette, textLayer, backPixels } = message.payload;
+      const result = processImageData(pixels, width, height, settings, lockedColors, { silhouette, textLayer, backPixels }, report('processing'), quantizeCached);
+      const { indices, rawIndices, backIndices, stack, relief, printability } = result;
+      const transfer = [indices.buffer, rawIndices.buffer, printability.thin.buffer, printability.islands.buffer];
+      if (backIndices) transfer.push(backIndices.buffer);
+      if (stack) transfer.push(stack.levels.buffer);
+      if (relief) transfer.push(relief.buffer);
+      scope.postMessage({ jobId, type: 'result', result }, transfer);
+    } else if (message.type === '3mf') {
+      const { indices, backIndices, stack, relief, settings, palette, thumbnailSrc, filamentNames } = message.payload;
+      report('generating_stl')('Generating 3MF...', 0.2);
+      const blob = await generate3MF(indices, settings, palette, thumbnailSrc, filamentNames, backIndices, stack, relief);
+      scope.postMessage({ jobId, type: 'result', result: blob });
+    } else if (message.type === 'plate') {
+      const { designs, layout, settings, thumbnails, filamentNames } = message.payload;
+      report('generating_stl')(`Packing ${designs.length} designs...`, 0.2);
+      const blob = await generatePlate3MF(designs, layout, settings, thumbnails, filamentNames);
+      scope.postMessage({ jobId, type: 'result', result: blob });
+    } else if (message.type === 'stl') {
+      const { indices, backIndices, stack, relief, settings, palette } = message.payload;
+      report('generating_stl')('Generating STLs...', 0.2);
+      const blob = await generateSTLZip(indices, settings, palette, backIndices, stack, relief);
+      scope.postMessage({ jobId, type: 'result', result: blob });
+    } else if (message.type === 'mesh') {
+      const { indices, backIndices, stack, relief, settings } = message.payload;
+      const meshes = buildColorMeshes(indices, settings, backIndices, stack, relief).map(toMeshBuffers);
+      scope.postMessage({ jobId, type: 'result', result: meshes }, meshes.flatMap(m => [m.vertices.buffer, m.triangles.buffer]));
+    } else if (message.type === 'usage') {
+      const { indices, backIndices, stack, relief, settings } = message.payload;
+      const usage = estimateFilamentUsage(buildColorMeshes(indices, settings, backIndices, stack, relief), settings);
+      scope.postMessage({ jobId, type: 'result', result: usage });
+    }
+  } catch (err) {
+    console.error(err);
+    scope.postMessage({ jobId, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};